@@ -56,7 +56,7 @@ export default function DocumentationPage() {
 								<h3 className="text-xl font-semibold text-gray-700 mb-2">Basic Usage</h3>
 								<ol className="list-decimal list-inside space-y-2 text-gray-600">
 									<li>Enter a mathematical expression in the calculator (e.g., <code className="bg-gray-100 px-1 rounded">3+2</code>)</li>
-									<li>Click "=" or press Enter to evaluate</li>
+									<li>Click "=" or press Enter to evaluate. While you type, the visualization makes the best of incomplete input, reading <code className="bg-gray-100 px-1 rounded">1+</code> as <code className="bg-gray-100 px-1 rounded">1+0</code>; evaluating checks the whole expression and underlines the first mistake</li>
 									<li>The expression will be converted to lambda calculus and visualized</li>
 									<li>Use the animation controls to step through the evaluation process</li>
 									<li>Read the explanations in the educational panel to understand each step</li>
@@ -70,11 +70,55 @@ export default function DocumentationPage() {
 								</p>
 								<ul className="list-disc list-inside space-y-1 text-gray-600">
 									<li>Addition (<code className="bg-gray-100 px-1 rounded">+</code>)</li>
-									<li>Subtraction (<code className="bg-gray-100 px-1 rounded">-</code>)</li>
+									<li>Subtraction (<code className="bg-gray-100 px-1 rounded">-</code>), truncated at zero because Church numerals are natural numbers: <code className="bg-gray-100 px-1 rounded">2-5</code> is 0. It is computed as <code className="bg-gray-100 px-1 rounded">SUB m n = n PRED m</code>, applying the predecessor PRED to m n times. Switch Numbers to Integers to get negative results instead</li>
+									<li>Unary minus (<code className="bg-gray-100 px-1 rounded">-3</code>, <code className="bg-gray-100 px-1 rounded">2*-3</code>); for natural numbers it always gives 0</li>
 									<li>Multiplication (<code className="bg-gray-100 px-1 rounded">*</code>)</li>
+									<li>Whole-number division (<code className="bg-gray-100 px-1 rounded">/</code>) and remainder (<code className="bg-gray-100 px-1 rounded">%</code>), e.g. <code className="bg-gray-100 px-1 rounded">7/2</code> is 3 and <code className="bg-gray-100 px-1 rounded">7%2</code> is 1; dividing by zero is an error</li>
+									<li>Exponentiation (<code className="bg-gray-100 px-1 rounded">^</code>), which binds tighter than multiplication and groups to the right: <code className="bg-gray-100 px-1 rounded">2^3^2</code> is <code className="bg-gray-100 px-1 rounded">2^(3^2)</code>. It is computed as <code className="bg-gray-100 px-1 rounded">EXP m n = n m</code></li>
+									<li>Factorial (<code className="bg-gray-100 px-1 rounded">!</code>), written after its operand, defined recursively with the Y combinator</li>
+									<li>Comparisons (<code className="bg-gray-100 px-1 rounded">&lt;</code>, <code className="bg-gray-100 px-1 rounded">&lt;=</code>, <code className="bg-gray-100 px-1 rounded">==</code>), the boolean operators <code className="bg-gray-100 px-1 rounded">&amp;&amp;</code>, <code className="bg-gray-100 px-1 rounded">||</code> and <code className="bg-gray-100 px-1 rounded">!</code>, the literals <code className="bg-gray-100 px-1 rounded">true</code> and <code className="bg-gray-100 px-1 rounded">false</code>, and <code className="bg-gray-100 px-1 rounded">if c then a else b</code>. A <code className="bg-gray-100 px-1 rounded">!</code> before an operand is negation, after it factorial. Numbers and booleans cannot be mixed: <code className="bg-gray-100 px-1 rounded">1 + true</code> is an error</li>
+									<li>Decimals such as <code className="bg-gray-100 px-1 rounded">2.5</code>, when Numbers is set to Rationals. Division is then exact and results are shown as fractions; <code className="bg-gray-100 px-1 rounded">%</code>, <code className="bg-gray-100 px-1 rounded">^</code> and <code className="bg-gray-100 px-1 rounded">!</code> are not available. In the other number systems a decimal is an error</li>
+									<li>Names: <code className="bg-gray-100 px-1 rounded">let x = 3 in x*x</code> binds a name in the expression after <code className="bg-gray-100 px-1 rounded">in</code>, and definitions such as <code className="bg-gray-100 px-1 rounded">f(x) = x*x+1;</code> or <code className="bg-gray-100 px-1 rounded">y = 2;</code> come before the expression they are used in, separated by semicolons. Names start with a lowercase letter; functions may call themselves</li>
+									<li>Lists such as <code className="bg-gray-100 px-1 rounded">[1, 2, 3]</code>, with the built-in functions <code className="bg-gray-100 px-1 rounded">sum(xs)</code>, <code className="bg-gray-100 px-1 rounded">length(xs)</code>, <code className="bg-gray-100 px-1 rounded">map(f, xs)</code> and <code className="bg-gray-100 px-1 rounded">fold(f, z, xs)</code>. The function given to map and fold is the name of a function you defined; <code className="bg-gray-100 px-1 rounded">fold(f, z, [a, b])</code> is <code className="bg-gray-100 px-1 rounded">f(a, f(b, z))</code></li>
 									<li>Parentheses for expression grouping</li>
 								</ul>
 							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Lambda Term Input</h3>
+								<p className="text-gray-600 mb-2">
+									Switch the calculator to <span className="font-medium">λ-Term</span> mode to enter arbitrary lambda terms,
+									such as the Y combinator or <code className="bg-gray-100 px-1 rounded">(λx.x x) (λx.x x)</code>.
+								</p>
+								<ul className="list-disc list-inside space-y-1 text-gray-600">
+									<li>Write abstractions with <code className="bg-gray-100 px-1 rounded">λ</code> or <code className="bg-gray-100 px-1 rounded">\</code>: <code className="bg-gray-100 px-1 rounded">\x.x</code></li>
+									<li>Several parameters are shorthand for nested abstractions: <code className="bg-gray-100 px-1 rounded">λx y.x</code> is <code className="bg-gray-100 px-1 rounded">λx.λy.x</code></li>
+									<li>Application is left-associative and needs a space: <code className="bg-gray-100 px-1 rounded">f x y</code> is <code className="bg-gray-100 px-1 rounded">(f x) y</code></li>
+									<li>Variable names may be longer than one letter, so <code className="bg-gray-100 px-1 rounded">xx</code> is a single variable</li>
+								</ul>
+								<p className="text-gray-600 mt-2">
+									When a term reaches its normal form, the result shows what it reads as: a numeral of one of the
+									encodings, a boolean, a pair, a list or a well-known combinator such as
+									<code className="bg-gray-100 px-1 rounded">S</code>. Many terms read several ways, since
+									<code className="bg-gray-100 px-1 rounded">λx y.y</code> is 0, false and the empty list at once; hover
+									over the result to see the others. A normal form that encodes nothing familiar is shown as it is.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Definitions</h3>
+								<p className="text-gray-600 mb-2">
+									Terms can be given names with <code className="bg-gray-100 px-1 rounded">NAME = term;</code>, either at the start of
+									the input (<code className="bg-gray-100 px-1 rounded">TWO = SUCC (SUCC ZERO); MULT TWO TWO</code>) or in the
+									Definitions editor below the strategy picker, where they stay available for every expression.
+								</p>
+								<ul className="list-disc list-inside space-y-1 text-gray-600">
+									<li>A standard prelude is always available: I, K, S, Y, OMEGA, TRUE, FALSE, IF, NOT, AND, OR, PAIR, FST, SND, ZERO, ONE, SUCC, PRED, ISZERO, LEQ, LT, EQ, PLUS, MULT, SUB, EXP, DIV, MOD and FACT, and the integer versions INT, INEG, IPLUS, ISUB, IMULT, IDIV, IMOD, IEXP, IFACT, ILEQ, ILT and IEQ, and the rational versions RNEG, RPLUS, RSUB, RMULT, RDIV, RLEQ, RLT and REQ</li>
+									<li>A name stays a single purple node in the diagram until the strategy reaches it; it is then unfolded in a δ-step</li>
+									<li>Definitions may use earlier ones but not themselves; use Y for recursion</li>
+									<li>Arithmetic expressions use the same mechanism: <code className="bg-gray-100 px-1 rounded">2+3</code> starts as <code className="bg-gray-100 px-1 rounded">PLUS 2 3</code></li>
+								</ul>
+							</div>
 						</section>
 
 						{/* Lambda Calculus Section */}
@@ -127,6 +171,101 @@ export default function DocumentationPage() {
 								</div>
 							</div>
 
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Reduction Strategies</h3>
+								<p className="text-gray-600 mb-2">
+									A term often contains several redexes. The strategy picker in the calculator decides which one is reduced next:
+								</p>
+								<ul className="list-disc list-inside space-y-1 text-gray-600">
+									<li><span className="font-medium">Normal order</span> reduces the leftmost-outermost redex and always finds a normal form if there is one</li>
+									<li><span className="font-medium">Applicative order</span> reduces arguments first and may loop where normal order terminates</li>
+									<li><span className="font-medium">Call by name</span> and <span className="font-medium">call by value</span> never reduce under a λ, so <code className="bg-gray-100 px-1 rounded">2*3</code> stops before it looks like the numeral 6</li>
+									<li><span className="font-medium">Head reduction</span> only reduces the redex at the head of the term</li>
+								</ul>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">η-Reduction and η-Expansion</h3>
+								<p className="text-gray-600 mb-2">
+									A function that only passes its argument on, <code className="bg-gray-100 px-1 rounded">λx.M x</code> with <code className="bg-gray-100 px-1 rounded">x</code> not
+									free in <code className="bg-gray-100 px-1 rounded">M</code>, behaves exactly like <code className="bg-gray-100 px-1 rounded">M</code>. Tick
+									{" "}<span className="font-medium">η-reduction</span> under the strategy picker to let the strategy contract such terms as well, in the same
+									order as β-redexes. Call by name and call by value never reduce at or under a λ, so they take no η-steps.
+									Numbers may then end up in a shorter form, e.g. 1 as <code className="bg-gray-100 px-1 rounded">λf.f</code>; they are still read correctly.
+								</p>
+								<p className="text-gray-600">
+									The opposite step, <code className="bg-gray-100 px-1 rounded">M → λx.M x</code>, could go on forever, so no strategy takes it.
+									The <span className="font-medium">η-expand</span> button above the diagram applies it to the term on display by hand: the steps after it
+									are dropped, and the reduction carries on from the expanded term.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Combinators</h3>
+								<p className="text-gray-600 mb-2">
+									The <span className="font-medium">Reduce</span> picker can compile the term to combinators before it runs.
+									Bracket abstraction removes every λ, leaving only applications of a few fixed combinators and the free variables:
+								</p>
+								<pre className="bg-gray-100 p-2 rounded text-sm overflow-x-auto mb-2">
+									S x y z → x z (y z)
+									K x y → x
+									I x → x
+									B x y z → x (y z)
+									C x y z → x z y
+								</pre>
+								<ul className="list-disc list-inside space-y-1 text-gray-600 mb-2">
+									<li><span className="font-medium">SKI</span> uses S, K and I only: <code className="bg-gray-100 px-1 rounded">λf x.f (f x)</code> becomes <code className="bg-gray-100 px-1 rounded">S (S (K S) (S (K K) I)) (S (S (K S) (S (K K) I)) (K I))</code>, and terms often hit the size limit</li>
+									<li><span className="font-medium">SKIBC</span> adds B and C, which pass an argument to one side only, so the same numeral is <code className="bg-gray-100 px-1 rounded">S (B B I) (C (B B I) I)</code></li>
+								</ul>
+								<p className="text-gray-600 mb-2">
+									Named definitions are unfolded before compiling. The leftmost combinator that has all its arguments is rewritten
+									first, and a combinator still waiting for arguments is left alone, so a term like <code className="bg-gray-100 px-1 rounded">2*3</code> may
+									stop while it still stands for a function. To read the result, the combinators are replaced by their λ-terms and
+									the term is reduced the rest of the way. After reducing an expression in more than one way, the step counts of
+									each are shown above the diagram.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Types</h3>
+								<p className="text-gray-600 mb-2">
+									Above the diagram, the visualizer shows the principal type of the current term, the most general type it has in
+									the simply typed lambda calculus, found by Hindley–Milner inference. Types are built from type variables and arrows:
+								</p>
+								<ul className="list-disc list-inside space-y-1 text-gray-600 mb-2">
+									<li>Church numerals have the type <code className="bg-gray-100 px-1 rounded">(a→a)→a→a</code>, and so does the result of <code className="bg-gray-100 px-1 rounded">2+3</code></li>
+									<li><code className="bg-gray-100 px-1 rounded">TRUE</code> and <code className="bg-gray-100 px-1 rounded">K</code> have the type <code className="bg-gray-100 px-1 rounded">a→b→a</code></li>
+									<li>A defined name gets a fresh copy of the type of its definition wherever it is used</li>
+								</ul>
+								<p className="text-gray-600 mb-2">
+									Some terms have no type at all. In <code className="bg-gray-100 px-1 rounded">λx.x x</code>, x must be a function taking
+									itself, so its type would have to contain itself. A banner points this out. The Y combinator is built from such a
+									self-application, so the typed calculus cannot express general recursion; in return, every typed term has a normal form.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">When Evaluation Stops</h3>
+								<p className="text-gray-600 mb-2">
+									Not every term has a normal form, so evaluation is bounded by the limits under the strategy picker
+									(maximum steps, term size and nesting depth). When a run ends for any reason other than reaching a normal
+									form, a banner above the diagram says why:
+								</p>
+								<ul className="list-disc list-inside space-y-1 text-gray-600">
+									<li><span className="font-medium">Cycle detected</span>: the reduction came back to an earlier term up to renaming, as <code className="bg-gray-100 px-1 rounded">(λx.x x)(λx.x x)</code> does after one step</li>
+									<li><span className="font-medium">Step limit</span> or <span className="font-medium">size limit</span>: the term kept reducing or kept growing, typical for the Y combinator</li>
+									<li><span className="font-medium">Depth limit</span>: the term is nested too deeply to search completely</li>
+								</ul>
+								<p className="text-gray-600 mt-2">
+									Arithmetic expressions are also computed a second way: the term is compiled to JavaScript functions and run
+									directly, without recording any steps. When the trace stops early, as it does for <code className="bg-gray-100 px-1 rounded">2^10</code> or
+									{" "}<code className="bg-gray-100 px-1 rounded">5!</code>, or ends in a normal form that does not read as a value, like the weak normal
+									forms of call by name, the result is still shown, marked &quot;Computed directly&quot;. When both
+									finish, their results are compared, and a banner warns if they disagree. Direct computation only reads
+									Church numerals, so it gives no result under other encodings.
+								</p>
+							</div>
+
 							<div className="mb-6">
 								<h3 className="text-xl font-semibold text-gray-700 mb-2">Church Encodings</h3>
 								<p className="text-gray-600 mb-4">
@@ -173,6 +312,10 @@ export default function DocumentationPage() {
 										<div className="w-8 h-8 bg-[#457b9d] mr-3"></div>
 										<span className="text-gray-700">Applications (func arg) are shown as rectangles</span>
 									</div>
+									<div className="flex items-center">
+										<div className="w-8 h-8 rounded-full bg-[#118a7e] flex items-center justify-center mr-3"></div>
+										<span className="text-gray-700">Combinators (S, K, I, B, C) of a compiled term are shown as dark green circles</span>
+									</div>
 								</div>
 							</div>
 
@@ -193,7 +336,10 @@ export default function DocumentationPage() {
 								<h3 className="text-xl font-semibold text-gray-700 mb-2">Interactive Features</h3>
 								<ul className="list-disc list-inside space-y-1 text-gray-600">
 									<li>You can zoom and pan the diagram to explore larger expressions</li>
-									<li>Nodes being reduced are highlighted with a glowing effect</li>
+									<li>Nodes taking part in the next step are highlighted with a glowing effect: a white outline for β-reduction, orange for α-conversion, teal for η-reduction and light blue for η-expansion</li>
+									<li>Nodes that were just substituted into the term get a yellow outline</li>
+									<li>Hovering over a node shows the subterm it stands for and, if the term has one, its type</li>
+									<li>The educational panel explains each step: which variable is bound, what is substituted and how many copies are made</li>
 									<li>For complex expressions, a minimap appears to help with navigation</li>
 									<li>Toggle "Show Lambda Notation" to see the textual representation</li>
 								</ul>
@@ -226,6 +372,116 @@ export default function DocumentationPage() {
 								</p>
 							</div>
 
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Division</h3>
+								<p className="text-gray-600 mb-2">
+									Try entering <code className="bg-gray-100 px-1 rounded">8/2</code> or <code className="bg-gray-100 px-1 rounded">7%3</code> in the calculator.
+								</p>
+								<p className="text-gray-600">
+									Division counts the dividend down one at a time while a second counter runs through blocks of
+									the divisor, using pairs to carry both counters. Because the loop runs a fixed number of times,
+									no fixed-point combinator is needed. Expect a few hundred steps even for small numbers.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Powers and Factorials</h3>
+								<p className="text-gray-600 mb-2">
+									Try entering <code className="bg-gray-100 px-1 rounded">2^5</code> or <code className="bg-gray-100 px-1 rounded">3!</code> in the calculator.
+								</p>
+								<p className="text-gray-600">
+									Exponentiation is just application: the numeral n applies m to itself n times. Factorial needs
+									recursion, which the prelude gets from the Y combinator:
+									<code className="bg-gray-100 px-1 rounded">FACT = Y (λf n.ISZERO n ONE (MULT n (f (PRED n))))</code>.
+									Under normal order each unfolding of Y is only expanded when needed, so the recursion stops at zero;
+									applicative order expands Y forever and runs into the size limit. Results grow quickly, so even
+									<code className="bg-gray-100 px-1 rounded">4!</code> takes thousands of steps.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Comparisons and Conditionals</h3>
+								<p className="text-gray-600 mb-2">
+									Try entering <code className="bg-gray-100 px-1 rounded">if 2 &lt; 3 then 10 else 20</code> in the calculator.
+								</p>
+								<p className="text-gray-600">
+									Church booleans are functions that choose: <code className="bg-gray-100 px-1 rounded">TRUE = λt f.t</code> picks
+									its first argument and <code className="bg-gray-100 px-1 rounded">FALSE = λt f.f</code> its second, so a conditional is
+									just the condition applied to both branches. Comparisons reduce to a zero test on the truncated difference:
+									<code className="bg-gray-100 px-1 rounded">LEQ m n = ISZERO (SUB m n)</code>. Note that FALSE is the same term as
+									the numeral 0; the calculator knows which of the two to show from the expression you typed.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Names and Functions</h3>
+								<p className="text-gray-600 mb-2">
+									Try entering <code className="bg-gray-100 px-1 rounded">f(x) = x*x+1; f(4)</code> in the calculator.
+								</p>
+								<p className="text-gray-600">
+									Names need nothing beyond abstraction and application. <code className="bg-gray-100 px-1 rounded">let x = 3 in x*x</code> becomes
+									<code className="bg-gray-100 px-1 rounded">(λx.MULT x x) 3</code>: the body is abstracted over the name and applied to the value, and the first
+									beta reduction substitutes it. A definition works the same way, binding the function
+									<code className="bg-gray-100 px-1 rounded">λx.PLUS (MULT x x) 1</code> to f in the rest of the expression, and a call <code className="bg-gray-100 px-1 rounded">f(4)</code> is the
+									application <code className="bg-gray-100 px-1 rounded">f 4</code>. A function that calls itself, like
+									<code className="bg-gray-100 px-1 rounded">fact(n) = if n == 0 then 1 else n * fact(n-1); fact(3)</code>, is passed to Y first, just as the
+									factorial operator is. Under applicative order and call by value, Y keeps unfolding and the recursion never finishes.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Lists</h3>
+								<p className="text-gray-600 mb-2">
+									Try entering <code className="bg-gray-100 px-1 rounded">sq(x) = x*x; sum(map(sq, [1, 2, 3]))</code> in the calculator.
+								</p>
+								<p className="text-gray-600">
+									Lists are encoded much like numbers, and the Lists setting picks how. A Church list is its own right
+									fold: <code className="bg-gray-100 px-1 rounded">[1, 2] = λc n.c 1 (c 2 n)</code>, so <code className="bg-gray-100 px-1 rounded">FOLD f z l = l f z</code> just hands the list its
+									arguments, and <code className="bg-gray-100 px-1 rounded">sum</code> is <code className="bg-gray-100 px-1 rounded">FOLD PLUS 0</code>. A Scott list <code className="bg-gray-100 px-1 rounded">λc n.c 1 [2]</code> holds its head
+									and tail instead, like a Scott numeral holds its predecessor, so FOLD and MAP recurse through Y.
+									Both end in <code className="bg-gray-100 px-1 rounded">λc n.n</code>, the same term as 0 and FALSE; as with booleans, the calculator reads the
+									result as a list because of the expression you typed.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Negative Numbers</h3>
+								<p className="text-gray-600 mb-2">
+									Set Numbers to Integers and try entering <code className="bg-gray-100 px-1 rounded">2-5</code> in the calculator.
+								</p>
+								<p className="text-gray-600">
+									An integer is a pair of Church numerals <code className="bg-gray-100 px-1 rounded">(p, n)</code> standing for
+									p - n, so 2 is <code className="bg-gray-100 px-1 rounded">(2, 0)</code> and -3 is <code className="bg-gray-100 px-1 rounded">(0, 3)</code>.
+									Subtracting swaps the parts of the second pair and adds: (2, 0) - (5, 0) = (2 + 0, 0 + 5) = (2, 5).
+									Many pairs stand for the same number, so every operation ends by normalizing with
+									<code className="bg-gray-100 px-1 rounded">INT p n = PAIR (SUB p n) (SUB n p)</code>, leaving (0, 3).
+									Division rounds towards zero.
+								</p>
+								<p className="text-gray-600 mt-2">
+									Rationals go one step further and pair an integer numerator with a Church numeral denominator:
+									<code className="bg-gray-100 px-1 rounded">1/2+1/3</code> computes (1·3 + 1·2, 2·3) = 5/6. Finding a common
+									factor would take a gcd, so fractions are only reduced when the result is read back, and denominators
+									can grow quickly.
+								</p>
+							</div>
+
+							<div className="mb-6">
+								<h3 className="text-xl font-semibold text-gray-700 mb-2">Numeral Encodings</h3>
+								<p className="text-gray-600 mb-2">
+									Church numerals are not the only way to write numbers as terms. Pick another one under Numerals and
+									compare the step count and the term size shown next to the step slider:
+								</p>
+								<ul className="list-disc list-inside space-y-1 text-gray-600">
+									<li><span className="font-medium">Church</span>: n applies a function n times. Addition and multiplication are short, but the predecessor is awkward</li>
+									<li><span className="font-medium">Scott</span>: <code className="bg-gray-100 px-1 rounded">n + 1 = λs z.s n</code>. The predecessor is one step, but addition and multiplication need recursion through Y</li>
+									<li><span className="font-medium">Parigot</span>: <code className="bg-gray-100 px-1 rounded">n + 1 = λs z.s n (n s z)</code>, both at once. The price is size: a normal form doubles with every increment, so even <code className="bg-gray-100 px-1 rounded">3*4</code> outgrows the default limits</li>
+									<li><span className="font-medium">Binary</span>: a list of bits, least significant first. Its size grows with the number of digits rather than the value, so <code className="bg-gray-100 px-1 rounded">12*12</code> is quick. Only addition and multiplication are defined</li>
+								</ul>
+								<p className="text-gray-600 mt-2">
+									Integers are built from Church numerals, so the other encodings only work with natural numbers.
+								</p>
+							</div>
+
 							<div className="mb-6">
 								<h3 className="text-xl font-semibold text-gray-700 mb-2">Complex Expressions</h3>
 								<p className="text-gray-600 mb-2">
@@ -2,20 +2,129 @@
 
 import AnimationController from "@/components/AnimationController";
 import Calculator from "@/components/Calculator";
+import DefinitionsEditor from "@/components/DefinitionsEditor";
 import EducationalPanel from "@/components/EducationalPanel";
+import TermNotation from "@/components/TermNotation";
 import TrompDiagram from "@/components/TrompDiagram";
-import { LambdaNode } from "@/lib/lambdaCalculus";
-import { parseMathExpression } from "@/lib/mathParser";
-import { evaluateMathAsLambda } from "@/lib/mathToLambda";
+import { CombinatorBasis, combinatorBases, combinatorDefinitions, combinatorNormalForm } from "@/lib/combinators";
+import { decodeResult, describeDecodedValue, formatDecodedValue } from "@/lib/decoders";
+import { parseDefinitions, parseProgram, prelude } from "@/lib/definitions";
+import { ListEncodingName, NumeralEncodingName, listEncodings, mathDefinitions, numeralEncodings } from "@/lib/encodings";
+import { useEvaluationWorker } from "@/lib/hooks/useEvaluationWorker";
+import { Environment, EvaluationLimits, ReductionStrategy, defaultLimits, etaExpand, reductionStrategies, termSize, terminationStatuses } from "@/lib/lambdaCalculus";
+import { printLambda } from "@/lib/lambdaPrinter";
+import { MathValue, NumberSystem, formatMathValue, numberSystems, parseMathExpression } from "@/lib/mathParser";
+import { MathEvaluationOptions } from "@/lib/mathToLambda";
+import { ParseError } from "@/lib/parseError";
+import { formatType, inferTypes } from "@/lib/typeInference";
 import Link from "next/link";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Arithmetic expressions are translated to Church encodings; lambda terms are evaluated as written
+type InputMode = 'math' | 'lambda';
+
+// Combinator terms are drawn as they are, without any named definitions
+const NO_DEFINITIONS: Environment = new Map();
+
+// Largest term that is typed. Inference recurses through the term and its types, so
+// much larger (and deeper) terms could overflow the stack, and would slow every step.
+const MAX_TYPED_SIZE = 2000;
+
+// Labels of the adjustable evaluation limits
+const LIMIT_LABELS: Record<keyof EvaluationLimits, string> = {
+	maxSteps: "Max steps",
+	maxSize: "Max term size",
+	maxDepth: "Max depth"
+};
 
 export default function Home() {
 	// State for calculator input and evaluation
-	const [calculationResult, setCalculationResult] = useState<number | null>(null);
-	const [steps, setSteps] = useState<LambdaNode[]>([]);
+	const [calculationResult, setCalculationResult] = useState<MathValue | null>(null);
+	// The same expression computed by running its term compiled to JavaScript
+	const [compiledResult, setCompiledResult] = useState<MathValue | null>(null);
 	const [currentExpression, setCurrentExpression] = useState<string>("");
 	const [liveVisualization, setLiveVisualization] = useState<boolean>(true);
+	const [inputMode, setInputMode] = useState<InputMode>('math');
+	const [inputError, setInputError] = useState<string | null>(null);
+	// The characters of an expression that failed to parse, underlined while it is unchanged
+	const [errorLocation, setErrorLocation] = useState<{ expression: string; start: number; end: number; } | null>(null);
+	const [strategy, setStrategy] = useState<ReductionStrategy>('normal');
+	// Also contract η-redexes λx.M x
+	const [eta, setEta] = useState<boolean>(false);
+	// Reduce compiled combinator terms instead of lambda terms
+	const [combinators, setCombinators] = useState<CombinatorBasis | null>(null);
+	const [numbers, setNumbers] = useState<NumberSystem>('natural');
+	const [encoding, setEncoding] = useState<NumeralEncodingName>('church');
+	const [lists, setLists] = useState<ListEncodingName>('church');
+	const [limits, setLimits] = useState<EvaluationLimits>(defaultLimits);
+	const [showLimits, setShowLimits] = useState<boolean>(false);
+	const [definitionsSource, setDefinitionsSource] = useState<string>("");
+	const [showDefinitions, setShowDefinitions] = useState<boolean>(false);
+
+	// The prelude extended with the user's definitions
+	const userDefinitions = useMemo((): { environment: Environment; error: string | null; } => {
+		try {
+			return { environment: parseDefinitions(definitionsSource), error: null };
+		} catch (error) {
+			return { environment: prelude, error: error instanceof Error ? error.message : String(error) };
+		}
+	}, [definitionsSource]);
+
+	// Evaluation runs in a Web Worker and streams its steps in
+	const {
+		steps,
+		isEvaluating,
+		termination,
+		start: startEvaluation,
+		resume: resumeEvaluation,
+		cancel: cancelEvaluation,
+		clear: clearEvaluation
+	} = useEvaluationWorker();
+
+	// The result to show: the value of a math expression, or else what the final normal
+	// form reads as, as for lambda input. A normal form nothing reads is shown as it is.
+	// Until the trace gives a math result, or when it stops short of one, the compiled
+	// term's value stands in.
+	const resultDisplay = useMemo((): { text: string; kind: string | null; readings?: string; } | null => {
+		if (calculationResult !== null) {
+			return { text: formatMathValue(calculationResult), kind: null };
+		}
+		if (compiledResult !== null) {
+			// A normal form that does not read as a value is weak, or a combinator term
+			// whose lambda reading did not normalize within the limits
+			const why = isEvaluating
+				? "The trace is still running"
+				: termination?.status === 'normalForm'
+					? "The normal form of the trace does not read as a value"
+					: "The trace stopped before this result";
+			return {
+				text: formatMathValue(compiledResult),
+				kind: "Computed directly",
+				readings: `${why}; it was computed by running the term as JavaScript`
+			};
+		}
+		if (isEvaluating || termination?.status !== 'normalForm' || steps.length === 0) {
+			return null;
+		}
+
+		const term = steps[steps.length - 1].term;
+		const normalForm = combinators ? combinatorNormalForm(term, limits) : term;
+		const [reading, ...others] = normalForm ? decodeResult(normalForm) : [];
+		if (!reading) {
+			return { text: printLambda(term), kind: "Normal form" };
+		}
+		return {
+			text: formatDecodedValue(reading),
+			kind: describeDecodedValue(reading),
+			readings: others.length > 0
+				? `Also reads as: ${others.map(other => `${formatDecodedValue(other)} (${describeDecodedValue(other)})`).join(', ')}`
+				: undefined
+		};
+	}, [calculationResult, compiledResult, isEvaluating, termination, steps, combinators, limits]);
+
+	// The trace and the compiled term should agree whenever both give a result
+	const resultMismatch = calculationResult !== null && compiledResult !== null
+		&& formatMathValue(calculationResult) !== formatMathValue(compiledResult);
 
 	// State for animation and visualization
 	const [currentStep, setCurrentStep] = useState<number>(0);
@@ -44,31 +153,117 @@ export default function Home() {
 		return () => window.removeEventListener('resize', checkScreenSize);
 	}, []);
 
+	// Everything an evaluation depends on apart from how it reduces, so that step counts
+	// of different strategies and combinator bases can be compared
+	const comparisonKey = useCallback((expression: string) => (
+		JSON.stringify([inputMode, expression, numbers, encoding, lists, limits, definitionsSource])
+	), [inputMode, numbers, encoding, lists, limits, definitionsSource]);
+
+	// Steps to normal form of the expression last evaluated, by how it was reduced
+	const [stepCounts, setStepCounts] = useState<{ key: string; counts: Record<string, number>; }>({ key: "", counts: {} });
+	const runningEvaluationRef = useRef<{ key: string; reduction: string; } | null>(null);
+
+	useEffect(() => {
+		const evaluation = runningEvaluationRef.current;
+		if (termination?.status !== 'normalForm' || !evaluation) return;
+
+		const count = steps.length - 1;
+		setStepCounts(previous => ({
+			key: evaluation.key,
+			counts: { ...(previous.key === evaluation.key ? previous.counts : {}), [evaluation.reduction]: count }
+		}));
+	}, [termination, steps]);
+
+	// How expressions are evaluated with the current settings. Combinator terms have no
+	// λs, so η-steps only apply to lambda terms.
+	const evaluationOptions = useMemo((): MathEvaluationOptions => ({
+		strategy,
+		definitions: inputMode === 'lambda' ? userDefinitions.environment : mathDefinitions(encoding, lists),
+		numbers,
+		encoding,
+		lists,
+		combinators: combinators ?? undefined,
+		eta: eta && combinators === null,
+		...limits
+	}), [inputMode, strategy, eta, combinators, numbers, encoding, lists, limits, userDefinitions]);
+
+	// Parse and evaluate an expression according to the current input mode
+	const evaluateExpression = useCallback((
+		expression: string,
+		callbacks: {
+			onCompiled: (value: MathValue | null) => void;
+			onDone: (result: MathValue | null) => void;
+			onError: (message: string) => void;
+		}
+	) => {
+		runningEvaluationRef.current = {
+			key: comparisonKey(expression),
+			reduction: combinators
+				? combinatorBases[combinators].label
+				: `${reductionStrategies[strategy].label}${eta ? " + η" : ""}`
+		};
+		startEvaluation(inputMode, expression, evaluationOptions, callbacks);
+	}, [inputMode, strategy, eta, combinators, evaluationOptions, comparisonKey, startEvaluation]);
+
+	// Step counts of the current expression, once it has been reduced in more than one way
+	const comparedStepCounts = stepCounts.key === comparisonKey(currentExpression) && Object.keys(stepCounts.counts).length > 1
+		? Object.entries(stepCounts.counts)
+		: null;
+
+	// Names the diagram draws as definitions, including those made in the input itself
+	const diagramDefinitions = useMemo((): Environment => {
+		if (inputMode !== 'lambda') return mathDefinitions(encoding, lists);
+		try {
+			return parseProgram(currentExpression, userDefinitions.environment).definitions;
+		} catch {
+			return userDefinitions.environment;
+		}
+	}, [inputMode, encoding, lists, currentExpression, userDefinitions]);
+
+	// Principal types of the term on display and its subterms. Compiled terms are typed
+	// through the lambda terms the combinators stand for. Null if there is no term, or it
+	// is too large or too deep to type.
+	const displayedTypes = useMemo(() => {
+		const term = steps[currentStep]?.term;
+		if (!term || termSize(term) > MAX_TYPED_SIZE) return null;
+		try {
+			return inferTypes(term, combinators ? combinatorDefinitions : diagramDefinitions);
+		} catch (error) {
+			// Out of stack
+			if (error instanceof RangeError) return null;
+			throw error;
+		}
+	}, [steps, currentStep, combinators, diagramDefinitions]);
+	const typesSkipped = displayedTypes === null && steps[currentStep] !== undefined;
+
+	// Take the value computed ahead of the trace, which replaces the previous result
+	// until the trace gives its own
+	const showCompiled = useCallback((compiled: MathValue | null) => {
+		setCalculationResult(null);
+		setCompiledResult(compiled);
+	}, []);
+
 	// Process an expression for visualization
 	const processExpression = useCallback((expression: string) => {
 		if (!expression.trim()) {
-			setSteps([]);
+			clearEvaluation();
 			setCalculationResult(null);
+			setCompiledResult(null);
+			setInputError(null);
 			return;
 		}
 
-		try {
-			// Parse the expression into an AST
-			const mathAst = parseMathExpression(expression);
-
-			// Convert to lambda calculus and evaluate
-			const { lambdaExpr, steps, result } = evaluateMathAsLambda(mathAst);
-
-			// Update state with the results
-			setSteps(steps);
-			setCalculationResult(result);
-			setCurrentStep(0);
-		} catch (error) {
-			// Silently ignore errors for real-time visualization
-			// This allows for partial expressions while typing
-			console.debug("Expression processing error (ignored for live update):", error);
-		}
-	}, []);
+		setCurrentStep(0);
+		evaluateExpression(expression, {
+			onCompiled: showCompiled,
+			onDone: setCalculationResult,
+			onError: (message) => {
+				// Silently ignore errors for real-time visualization
+				// This allows for partial expressions while typing
+				console.debug("Expression processing error (ignored for live update):", message);
+			}
+		});
+	}, [evaluateExpression, clearEvaluation, showCompiled]);
 
 	// Handle expression changes for live visualization
 	const handleExpressionChange = useCallback((expression: string) => {
@@ -82,36 +277,107 @@ export default function Home() {
 	// Handle final evaluation from calculator
 	const handleCalculatorInput = useCallback((expression: string) => {
 		setCurrentExpression(expression);
+		setInputError(null);
+		setErrorLocation(null);
+
+		// Live preview reads past mistakes, but evaluating asks for an expression that is complete
+		if (inputMode === 'math') {
+			try {
+				parseMathExpression(expression, { strict: true });
+			} catch (error) {
+				if (!(error instanceof ParseError)) throw error;
+				clearEvaluation();
+				setCalculationResult(null);
+				setCompiledResult(null);
+				setIsPlaying(false);
+				setInputError(error.message);
+				setErrorLocation({ expression, start: error.position, end: error.position + error.length });
+				return;
+			}
+		}
 
-		try {
-			// Parse the expression into an AST
-			const mathAst = parseMathExpression(expression);
-
-			// Convert to lambda calculus and evaluate
-			const { lambdaExpr, steps, result } = evaluateMathAsLambda(mathAst);
+		// Playback starts right away and follows the steps as they arrive
+		setCurrentStep(0);
+		setIsPlaying(true);
 
-			// Update state with the results
-			setCalculationResult(result);
-			setSteps(steps);
-			setCurrentStep(0);
-			setIsPlaying(true);
+		// On mobile, automatically switch to visualization tab
+		if (isMobile) {
+			setActiveTab('visualization');
+		}
 
-			// On mobile, automatically switch to visualization tab
-			if (isMobile) {
-				setActiveTab('visualization');
+		evaluateExpression(expression, {
+			onCompiled: showCompiled,
+			onDone: setCalculationResult,
+			onError: (message) => {
+				console.error("Error evaluating expression:", message);
+				clearEvaluation();
+				setCalculationResult(null);
+				setCompiledResult(null);
+				setIsPlaying(false);
+				setInputError(message);
 			}
-		} catch (error) {
-			console.error("Error evaluating expression:", error);
-			setCalculationResult(null);
-			setSteps([]);
-		}
-	}, [isMobile]);
+		});
+	}, [isMobile, inputMode, evaluateExpression, clearEvaluation, showCompiled]);
 
 	// Toggle play/pause of animation
 	const handlePlayPauseToggle = () => {
 		setIsPlaying(!isPlaying);
 	};
 
+	// Switch between arithmetic and raw lambda-term input
+	const handleInputModeChange = (mode: InputMode) => {
+		if (mode === inputMode) return;
+
+		setInputMode(mode);
+		setCurrentExpression("");
+		clearEvaluation();
+		setCalculationResult(null);
+		setCompiledResult(null);
+		setInputError(null);
+	};
+
+	// The expression on display, read by the effect below without re-running on every keystroke
+	const currentExpressionRef = useRef<string>(currentExpression);
+	useEffect(() => {
+		currentExpressionRef.current = currentExpression;
+	}, [currentExpression]);
+
+	// Re-run the current expression when a different reduction strategy, η setting, combinator
+	// basis, number system, encoding, limit or definition is picked; processExpression
+	// changes exactly then
+	useEffect(() => {
+		if (currentExpressionRef.current) {
+			processExpression(currentExpressionRef.current);
+		}
+	}, [processExpression]);
+
+	// η-expand the term on display, dropping the steps after it, and reduce on from there.
+	// The value of the expression does not change, so the result shown stays.
+	const handleEtaExpand = () => {
+		const step = steps[currentStep] && etaExpand(steps[currentStep].term);
+		if (!step) return;
+
+		// A trace with a step taken by hand is not a strategy's step count
+		runningEvaluationRef.current = null;
+		setInputError(null);
+		resumeEvaluation(currentStep, step, inputMode, currentExpression, evaluationOptions, {
+			onError: (message) => {
+				console.error("Error resuming evaluation:", message);
+				setInputError(message);
+			}
+		});
+		setCurrentStep(currentStep + 1);
+		setIsPlaying(false);
+	};
+
+	// Update one limit, ignoring values that aren't positive whole numbers
+	const handleLimitChange = (limit: keyof EvaluationLimits, value: string) => {
+		const parsed = parseInt(value, 10);
+		if (Number.isNaN(parsed) || parsed < 1) return;
+
+		setLimits((previous) => ({ ...previous, [limit]: parsed }));
+	};
+
 	// Toggle lambda notation display
 	const handleToggleLambdaNotation = () => {
 		setShowLambdaNotation(!showLambdaNotation);
@@ -147,9 +413,9 @@ export default function Home() {
 				onClick={() => setActiveTab('visualization')}
 			>
 				Visualization
-				{calculationResult !== null && (
-					<span className="ml-2 inline-flex items-center justify-center w-5 h-5 text-xs font-semibold text-white bg-blue-600 rounded-full">
-						{calculationResult}
+				{resultDisplay && (
+					<span className="ml-2 inline-flex items-center justify-center min-w-5 max-w-[8rem] h-5 px-1 text-xs font-semibold text-white bg-blue-600 rounded-full" title={resultDisplay.kind ?? undefined}>
+						<span className="truncate">{resultDisplay.text}</span>
 					</span>
 				)}
 			</button>
@@ -179,19 +445,172 @@ export default function Home() {
 						<span>Live Preview</span>
 					</button>
 				</div>
-				{calculationResult !== null && (
-					<div className="flex items-center bg-green-50 px-2 py-1 rounded-lg">
-						<span className="text-gray-600 mr-1 text-xs">Result:</span>
-						<span className="text-xl font-bold text-green-700">{calculationResult}</span>
+				{resultDisplay && (
+					<div className="flex items-center min-w-0 bg-green-50 px-2 py-1 rounded-lg" title={resultDisplay.readings}>
+						<span className="text-gray-600 mr-1 text-xs whitespace-nowrap">{resultDisplay.kind ?? "Result"}:</span>
+						{resultDisplay.kind === "Normal form" ? (
+							<span className="font-mono text-sm text-green-700 truncate max-w-[12rem]" title={resultDisplay.text}>{resultDisplay.text}</span>
+						) : (
+							<span className="text-xl font-bold text-green-700">{resultDisplay.text}</span>
+						)}
 					</div>
 				)}
 			</div>
+			<div className="flex mb-2 text-xs bg-gray-100 rounded-lg p-0.5">
+				<button
+					onClick={() => handleInputModeChange('math')}
+					className={`flex-1 py-1 rounded-md ${inputMode === 'math' ? 'bg-white text-blue-700 shadow-sm font-medium' : 'text-gray-600 hover:text-gray-800'}`}
+					title="Enter arithmetic expressions"
+				>
+					Arithmetic
+				</button>
+				<button
+					onClick={() => handleInputModeChange('lambda')}
+					className={`flex-1 py-1 rounded-md ${inputMode === 'lambda' ? 'bg-white text-blue-700 shadow-sm font-medium' : 'text-gray-600 hover:text-gray-800'}`}
+					title="Enter lambda terms such as (λx.x x)(λx.x x)"
+				>
+					λ-Term
+				</button>
+			</div>
+			<label
+				className="flex items-center mb-2 text-xs text-gray-600"
+				title={combinators ? combinatorBases[combinators].description : "Reduce lambda terms by β-reduction"}
+			>
+				<span className="mr-2">Reduce</span>
+				<select
+					value={combinators ?? "lambda"}
+					onChange={(e) => setCombinators(e.target.value === "lambda" ? null : e.target.value as CombinatorBasis)}
+					className="flex-1 bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+				>
+					<option value="lambda">λ-terms</option>
+					{(Object.keys(combinatorBases) as CombinatorBasis[]).map((key) => (
+						<option key={key} value={key}>{combinatorBases[key].label}</option>
+					))}
+				</select>
+			</label>
+			<label
+				className={`flex items-center mb-2 text-xs ${combinators ? "text-gray-400" : "text-gray-600"}`}
+				title={combinators ? "Combinators always reduce leftmost-outermost" : reductionStrategies[strategy].description}
+			>
+				<span className="mr-2">Strategy</span>
+				<select
+					value={strategy}
+					onChange={(e) => setStrategy(e.target.value as ReductionStrategy)}
+					disabled={combinators !== null}
+					className="flex-1 bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+				>
+					{(Object.keys(reductionStrategies) as ReductionStrategy[]).map((key) => (
+						<option key={key} value={key}>{reductionStrategies[key].label}</option>
+					))}
+				</select>
+			</label>
+			<label
+				className={`flex items-center mb-2 text-xs ${combinators ? "text-gray-400" : "text-gray-600"}`}
+				title="Also contract λx.M x to M when x is not free in M. Weak strategies never look at or under a λ, so they take no η-steps."
+			>
+				<input
+					type="checkbox"
+					checked={eta}
+					onChange={(e) => setEta(e.target.checked)}
+					disabled={combinators !== null}
+					className="mr-2"
+				/>
+				η-reduction
+			</label>
+			{inputMode === 'math' && (
+				<label className="flex items-center mb-2 text-xs text-gray-600" title={numberSystems[numbers].description}>
+					<span className="mr-2">Numbers</span>
+					<select
+						value={numbers}
+						onChange={(e) => setNumbers(e.target.value as NumberSystem)}
+						className="flex-1 bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+					>
+						{(Object.keys(numberSystems) as NumberSystem[]).map((key) => (
+							<option key={key} value={key}>{numberSystems[key].label}</option>
+						))}
+					</select>
+				</label>
+			)}
+			{inputMode === 'math' && (
+				<label className="flex items-center mb-2 text-xs text-gray-600" title={numeralEncodings[encoding].description}>
+					<span className="mr-2">Numerals</span>
+					<select
+						value={encoding}
+						onChange={(e) => setEncoding(e.target.value as NumeralEncodingName)}
+						className="flex-1 bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+					>
+						{(Object.keys(numeralEncodings) as NumeralEncodingName[]).map((key) => (
+							<option key={key} value={key}>{numeralEncodings[key].label}</option>
+						))}
+					</select>
+				</label>
+			)}
+			{inputMode === 'math' && (
+				<label className="flex items-center mb-2 text-xs text-gray-600" title={listEncodings[lists].description}>
+					<span className="mr-2">Lists</span>
+					<select
+						value={lists}
+						onChange={(e) => setLists(e.target.value as ListEncodingName)}
+						className="flex-1 bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+					>
+						{(Object.keys(listEncodings) as ListEncodingName[]).map((key) => (
+							<option key={key} value={key}>{listEncodings[key].label}</option>
+						))}
+					</select>
+				</label>
+			)}
+			<button
+				onClick={() => setShowLimits(!showLimits)}
+				className="mb-2 text-xs text-gray-500 hover:text-gray-700"
+			>
+				{showLimits ? "▾" : "▸"} Limits
+			</button>
+			{showLimits && (
+				<div className="grid grid-cols-3 gap-1 mb-2 text-xs text-gray-600">
+					{(Object.keys(LIMIT_LABELS) as (keyof EvaluationLimits)[]).map((key) => (
+						<label key={key} className="flex flex-col">
+							<span>{LIMIT_LABELS[key]}</span>
+							<input
+								type="number"
+								min={1}
+								value={limits[key]}
+								onChange={(e) => handleLimitChange(key, e.target.value)}
+								className="bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+							/>
+						</label>
+					))}
+				</div>
+			)}
+			{inputMode === 'lambda' && (
+				<>
+					<button
+						onClick={() => setShowDefinitions(!showDefinitions)}
+						className="mb-2 ml-3 text-xs text-gray-500 hover:text-gray-700"
+					>
+						{showDefinitions ? "▾" : "▸"} Definitions
+					</button>
+					{showDefinitions && (
+						<div className="mb-2">
+							<DefinitionsEditor
+								source={definitionsSource}
+								onChange={setDefinitionsSource}
+								error={userDefinitions.error}
+							/>
+						</div>
+					)}
+				</>
+			)}
 			<div className="flex-shrink-0">
 				<Calculator
+					mode={inputMode}
 					onEvaluate={handleCalculatorInput}
 					onExpressionChange={handleExpressionChange}
+					errorRange={errorLocation?.expression === currentExpression ? errorLocation : null}
 				/>
 			</div>
+			{inputError && (
+				<p className="mt-2 text-xs text-red-600 font-mono break-words">{inputError}</p>
+			)}
 		</div>
 	);
 
@@ -222,23 +641,120 @@ export default function Home() {
 					</svg>
 					Visualization
 				</h2>
-				{liveVisualization && currentExpression && (
-					<div className="text-sm bg-blue-50 text-blue-700 px-3 py-1 rounded-full font-medium flex items-center truncate max-w-[180px] md:max-w-xs">
-						<span className="inline-block h-2 w-2 rounded-full bg-blue-500 mr-2 flex-shrink-0 animate-pulse"></span>
-						<span className="truncate">Visualizing: {currentExpression}</span>
-					</div>
-				)}
+				<div className="flex items-center gap-2">
+					{isEvaluating && (
+						<div className="text-xs bg-amber-50 text-amber-700 px-2 py-1 rounded-full flex items-center gap-2">
+							<span>Evaluating… {steps.length} steps</span>
+							<button
+								onClick={cancelEvaluation}
+								className="font-medium hover:text-amber-900"
+								title="Stop the evaluation and keep the steps computed so far"
+							>
+								Cancel
+							</button>
+						</div>
+					)}
+					{liveVisualization && currentExpression && (
+						<div className="text-sm bg-blue-50 text-blue-700 px-3 py-1 rounded-full font-medium flex items-center truncate max-w-[180px] md:max-w-xs">
+							<span className="inline-block h-2 w-2 rounded-full bg-blue-500 mr-2 flex-shrink-0 animate-pulse"></span>
+							<span className="truncate">Visualizing: {currentExpression}</span>
+						</div>
+					)}
+					<button
+						onClick={handleToggleLambdaNotation}
+						className={`text-xs px-2 py-1 rounded-full border ${showLambdaNotation
+							? "bg-blue-100 text-blue-800 border-blue-200"
+							: "bg-gray-100 text-gray-700 border-gray-200 hover:bg-gray-200"
+							}`}
+						title={showLambdaNotation ? "Hide lambda notation" : "Show lambda notation"}
+					>
+						λ Notation
+					</button>
+					<button
+						onClick={handleEtaExpand}
+						disabled={combinators !== null || !steps[currentStep]}
+						className="text-xs px-2 py-1 rounded-full border bg-gray-100 text-gray-700 border-gray-200 hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-gray-100"
+						title="η-expand the term shown, M → λx.M x, and reduce on from there"
+					>
+						η-expand
+					</button>
+				</div>
 			</div>
 
 			{steps.length > 0 ? (
 				<>
+					{termination && termination.status !== 'normalForm' && (
+						<div className="mb-3 px-3 py-2 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+							<span className="font-semibold">{terminationStatuses[termination.status].label}.</span>{" "}
+							{terminationStatuses[termination.status].description}
+							{termination.status === 'cycle' && termination.cycleStart !== undefined && (
+								<> Step {steps.length} repeats step {termination.cycleStart + 1}.</>
+							)}
+							{" "}The last step is not the result.
+						</div>
+					)}
+
+					{resultMismatch && (
+						<div className="mb-3 px-3 py-2 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+							<span className="font-semibold">Results disagree.</span>{" "}
+							The trace reads {formatMathValue(calculationResult!)}, but running the compiled term
+							gives {formatMathValue(compiledResult!)}. One of the two evaluators has a bug.
+						</div>
+					)}
+
+					{displayedTypes?.error && (
+						<div className="mb-3 px-3 py-2 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+							<span className="font-semibold">No simple type.</span>{" "}
+							{displayedTypes.error.message}.
+							{displayedTypes.error.selfApplication && (
+								<> A term applied to itself would need a type that contains itself, so the simply typed
+									lambda calculus cannot express it, nor the Y combinator built from it.</>
+							)}
+						</div>
+					)}
+
+					{(displayedTypes?.type || typesSkipped || comparedStepCounts) && (
+						<div className="mb-2 flex flex-wrap gap-x-4 text-xs text-gray-600">
+							{displayedTypes?.type && (
+								<span className="truncate max-w-full" title="Principal type of the term shown; hover over a node for the type of its subterm">
+									Type: <span className="font-mono">{formatType(displayedTypes.type)}</span>
+								</span>
+							)}
+							{typesSkipped && (
+								<span title={`Terms of more than ${MAX_TYPED_SIZE} nodes, or nested too deeply, are not typed`}>
+									Type: not computed
+								</span>
+							)}
+							{comparedStepCounts && (
+								<span title="Steps to normal form of this expression, by how it was reduced">
+									Steps:{" "}
+									{comparedStepCounts.map(([reduction, count]) => `${reduction} ${count}`).join(" · ")}
+								</span>
+							)}
+						</div>
+					)}
+
 					<div className="flex-grow h-[calc(100%-220px)] min-h-[250px] bg-gray-50 rounded-lg p-1">
-						<TrompDiagram steps={steps} currentStep={currentStep} />
+						<TrompDiagram
+							steps={steps}
+							currentStep={currentStep}
+							definitions={combinators ? NO_DEFINITIONS : diagramDefinitions}
+							combinators={combinators !== null}
+							types={displayedTypes}
+						/>
 					</div>
 
+					{showLambdaNotation && steps[currentStep] && (
+						<div className="mt-3">
+							<TermNotation term={steps[currentStep].term} />
+						</div>
+					)}
+
 					<div className="mt-3">
 						<AnimationController
 							totalSteps={steps.length}
+							termSize={steps[currentStep] ? termSize(steps[currentStep].term) : undefined}
+							isLoading={isEvaluating}
 							currentStep={currentStep}
 							onStepChange={setCurrentStep}
 							isPlaying={isPlaying}
@@ -249,7 +765,7 @@ export default function Home() {
 					</div>
 
 					<div className="mt-3 overflow-auto max-h-[200px]">
-						<EducationalPanel />
+						<EducationalPanel steps={steps} currentStep={currentStep} termination={termination} />
 					</div>
 				</>
 			) : (
@@ -4,6 +4,10 @@ import { useEffect } from "react";
 
 interface AnimationControllerProps {
 	totalSteps: number;
+	// Number of nodes in the term at the current step
+	termSize?: number;
+	// More steps are still being computed
+	isLoading?: boolean;
 	currentStep: number;
 	onStepChange: (step: number) => void;
 	isPlaying: boolean;
@@ -14,6 +18,8 @@ interface AnimationControllerProps {
 
 export default function AnimationController({
 	totalSteps,
+	termSize,
+	isLoading = false,
 	currentStep,
 	onStepChange,
 	isPlaying,
@@ -30,15 +36,16 @@ export default function AnimationController({
 		const intervalId = setInterval(() => {
 			if (currentStep < totalSteps - 1) {
 				onStepChange(currentStep + 1);
-			} else {
+			} else if (!isLoading) {
 				// Stop when reached the end
 				onPlayPauseToggle();
 			}
+			// Otherwise wait at the last step until more arrive
 		}, intervalTime);
 
 		// Clean up interval on unmount or when dependencies change
 		return () => clearInterval(intervalId);
-	}, [isPlaying, currentStep, totalSteps, speed, onStepChange, onPlayPauseToggle]);
+	}, [isPlaying, isLoading, currentStep, totalSteps, speed, onStepChange, onPlayPauseToggle]);
 
 	const handleStepForward = () => {
 		if (currentStep < totalSteps - 1) {
@@ -62,6 +69,11 @@ export default function AnimationController({
 				<div className="text-xs font-medium bg-blue-50 text-blue-700 px-2 py-1 rounded-full mr-3">
 					Step {currentStep + 1}/{totalSteps}
 				</div>
+				{termSize !== undefined && (
+					<div className="text-xs text-gray-500 mr-3 whitespace-nowrap" title="Number of variables, abstractions and applications in the current term">
+						Size {termSize}
+					</div>
+				)}
 
 				<input
 					type="range"
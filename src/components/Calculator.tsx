@@ -5,12 +5,29 @@ import { useEffect, useState } from "react";
 interface CalculatorProps {
 	onEvaluate: (expression: string) => void;
 	onExpressionChange?: (expression: string) => void;
+	// 'math' shows the arithmetic keypad, 'lambda' the lambda-term keypad
+	mode?: 'math' | 'lambda';
+	// Characters of the input to underline as the location of an error
+	errorRange?: { start: number; end: number; } | null;
 }
 
-export default function Calculator({ onEvaluate, onExpressionChange }: CalculatorProps) {
+// Example terms offered as shortcuts in lambda mode
+const LAMBDA_EXAMPLES = [
+	{ label: "I", term: "λx.x" },
+	{ label: "K", term: "λx y.x" },
+	{ label: "Ω", term: "(λx.x x) (λx.x x)" },
+	{ label: "Y", term: "λf.(λx.f (x x)) (λx.f (x x))" },
+];
+
+export default function Calculator({ onEvaluate, onExpressionChange, mode = 'math', errorRange = null }: CalculatorProps) {
 	const [display, setDisplay] = useState<string>("");
 	const [history, setHistory] = useState<string[]>([]);
 
+	// Expressions from one input language are meaningless in the other
+	useEffect(() => {
+		setDisplay("");
+	}, [mode]);
+
 	// Send updates to parent component whenever display changes
 	useEffect(() => {
 		if (onExpressionChange) {
@@ -45,117 +62,330 @@ export default function Calculator({ onEvaluate, onExpressionChange }: Calculato
 		setDisplay(e.target.value);
 	};
 
+	// An error at the end of the input underlines its last character
+	const underline = errorRange && display.length > 0
+		? { start: Math.min(errorRange.start, display.length - 1), end: Math.max(errorRange.end, errorRange.start + 1) }
+		: null;
+
 	return (
 		<div className="w-full max-w-sm">
-			<div className="mb-2">
+			<div className="mb-2 relative">
 				<input
 					type="text"
 					value={display}
 					onChange={handleInputChange}
 					className="w-full p-2 text-right text-lg bg-gray-100 border border-gray-200 rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-blue-300 focus:border-transparent"
-					placeholder="Enter expression..."
+					placeholder={mode === 'lambda' ? "Enter λ-term, e.g. (λx y.x) a b" : "Enter expression..."}
 				/>
+				{underline && (
+					// The input's text laid over it, invisible except for the underline
+					<div
+						aria-hidden="true"
+						className="absolute inset-0 p-2 text-right text-lg border border-transparent whitespace-pre overflow-hidden pointer-events-none text-transparent"
+					>
+						{display.slice(0, underline.start)}
+						<span className="underline decoration-wavy decoration-red-500">{display.slice(underline.start, underline.end)}</span>
+						{display.slice(underline.end)}
+					</div>
+				)}
 			</div>
 
-			<div className="grid grid-cols-4 gap-1.5">
-				<button
-					className="p-2 bg-red-100 text-red-700 font-medium rounded-md hover:bg-red-200 active:bg-red-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleClear()}
-				>
-					C
-				</button>
-				<button
-					className="p-2 bg-amber-100 text-amber-700 font-medium rounded-md hover:bg-amber-200 active:bg-amber-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleDelete()}
-				>
-					←
-				</button>
-				<button
-					className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick("(")}
-				>
-					(
-				</button>
-				<button
-					className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick(")")}
-				>
-					)
-				</button>
-
-				{[7, 8, 9].map((num) => (
-					<button
-						key={num}
-						className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
-						onClick={() => handleNumberClick(num)}
+			{mode === 'lambda' ? (
+				<div className="grid grid-cols-4 gap-1.5">
+					<button
+						className="p-2 bg-red-100 text-red-700 font-medium rounded-md hover:bg-red-200 active:bg-red-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleClear()}
+					>
+						C
+					</button>
+					<button
+						className="p-2 bg-amber-100 text-amber-700 font-medium rounded-md hover:bg-amber-200 active:bg-amber-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleDelete()}
+					>
+						←
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("(")}
+					>
+						(
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(")")}
 					>
-						{num}
+						)
 					</button>
-				))}
-				<button
-					className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick("/")}
-				>
-					÷
-				</button>
 
-				{[4, 5, 6].map((num) => (
 					<button
-						key={num}
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("λ")}
+					>
+						λ
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(".")}
+					>
+						.
+					</button>
+					<button
 						className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
-						onClick={() => handleNumberClick(num)}
+						onClick={() => handleOperatorClick(" ")}
+					>
+						␣
+					</button>
+					<button
+						className="p-2 bg-green-500 text-white font-medium rounded-md hover:bg-green-600 active:bg-green-700 transition-colors text-sm shadow-sm"
+						onClick={() => handleEvaluate()}
+					>
+						=
+					</button>
+
+					{LAMBDA_EXAMPLES.map((example) => (
+						<button
+							key={example.label}
+							className="p-2 bg-purple-100 text-purple-700 font-medium rounded-md hover:bg-purple-200 active:bg-purple-300 transition-colors text-sm shadow-sm"
+							onClick={() => setDisplay(example.term)}
+							title={example.term}
+						>
+							{example.label}
+						</button>
+					))}
+				</div>
+			) : (
+				<div className="grid grid-cols-4 gap-1.5">
+					<button
+						className="p-2 bg-red-100 text-red-700 font-medium rounded-md hover:bg-red-200 active:bg-red-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleClear()}
+					>
+						C
+					</button>
+					<button
+						className="p-2 bg-amber-100 text-amber-700 font-medium rounded-md hover:bg-amber-200 active:bg-amber-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleDelete()}
 					>
-						{num}
+						←
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("(")}
+					>
+						(
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(")")}
+					>
+						)
+					</button>
+
+					{[7, 8, 9].map((num) => (
+						<button
+							key={num}
+							className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
+							onClick={() => handleNumberClick(num)}
+						>
+							{num}
+						</button>
+					))}
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("/")}
+					>
+						÷
+					</button>
+
+					{[4, 5, 6].map((num) => (
+						<button
+							key={num}
+							className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
+							onClick={() => handleNumberClick(num)}
+						>
+							{num}
+						</button>
+					))}
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("*")}
+					>
+						×
+					</button>
+
+					{[1, 2, 3].map((num) => (
+						<button
+							key={num}
+							className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
+							onClick={() => handleNumberClick(num)}
+						>
+							{num}
+						</button>
+					))}
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("-")}
+					>
+						−
 					</button>
-				))}
-				<button
-					className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick("*")}
-				>
-					×
-				</button>
 
-				{[1, 2, 3].map((num) => (
 					<button
-						key={num}
 						className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
-						onClick={() => handleNumberClick(num)}
-					>
-						{num}
-					</button>
-				))}
-				<button
-					className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick("-")}
-				>
-					−
-				</button>
-
-				<button
-					className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleNumberClick(0)}
-				>
-					0
-				</button>
-				<button
-					className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick(".")}
-				>
-					.
-				</button>
-				<button
-					className="p-2 bg-green-500 text-white font-medium rounded-md hover:bg-green-600 active:bg-green-700 transition-colors text-sm shadow-sm"
-					onClick={() => handleEvaluate()}
-				>
-					=
-				</button>
-				<button
-					className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
-					onClick={() => handleOperatorClick("+")}
-				>
-					+
-				</button>
-			</div>
+						onClick={() => handleNumberClick(0)}
+					>
+						0
+					</button>
+					<button
+						className="p-2 bg-gray-100 text-gray-700 font-medium rounded-md hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(".")}
+					>
+						.
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("%")}
+						title="Remainder"
+					>
+						mod
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("+")}
+					>
+						+
+					</button>
+
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("^")}
+						title="Power"
+					>
+						xʸ
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("!")}
+						title="Factorial"
+					>
+						n!
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("<")}
+					>
+						{"<"}
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("<=")}
+					>
+						≤
+					</button>
+
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("==")}
+						title="Equal"
+					>
+						==
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("&&")}
+					>
+						and
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("||")}
+					>
+						or
+					</button>
+					<button
+						className="p-2 bg-blue-100 text-blue-700 font-medium rounded-md hover:bg-blue-200 active:bg-blue-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("!")}
+					>
+						not
+					</button>
+
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("let x = ")}
+						title="Bind a name"
+					>
+						let
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(" in ")}
+					>
+						in
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("x")}
+					>
+						x
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("; ")}
+						title="End a definition such as f(x) = x*x"
+					>
+						;
+					</button>
+
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("[")}
+					>
+						[
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("]")}
+					>
+						]
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(", ")}
+					>
+						,
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("sum(")}
+						title="Sum of a list; also length, map and fold"
+					>
+						sum
+					</button>
+
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick("if ")}
+					>
+						if
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(" then ")}
+					>
+						then
+					</button>
+					<button
+						className="p-2 bg-indigo-100 text-indigo-700 font-medium rounded-md hover:bg-indigo-200 active:bg-indigo-300 transition-colors text-sm shadow-sm"
+						onClick={() => handleOperatorClick(" else ")}
+					>
+						else
+					</button>
+					<button
+						className="p-2 bg-green-500 text-white font-medium rounded-md hover:bg-green-600 active:bg-green-700 transition-colors text-sm shadow-sm"
+						onClick={() => handleEvaluate()}
+					>
+						=
+					</button>
+				</div>
+			)}
 
 			{history.length > 0 && (
 				<div className="mt-2 border-t pt-1">
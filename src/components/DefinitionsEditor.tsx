@@ -0,0 +1,41 @@
+"use client";
+
+import { prelude } from "@/lib/definitions";
+import { printLambda } from "@/lib/lambdaPrinter";
+
+interface DefinitionsEditorProps {
+	source: string;
+	onChange: (source: string) => void;
+	// Message of the last parse failure, if any
+	error: string | null;
+}
+
+export default function DefinitionsEditor({ source, onChange, error }: DefinitionsEditorProps) {
+	return (
+		<div className="text-xs">
+			<textarea
+				value={source}
+				onChange={(e) => onChange(e.target.value)}
+				rows={3}
+				spellCheck={false}
+				placeholder={"TWO = SUCC (SUCC ZERO);\nSWAP = λp.PAIR (SND p) (FST p);"}
+				className="w-full p-1 font-mono bg-gray-50 border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-300"
+			/>
+			{error && (
+				<p className="text-red-600 font-mono break-words">{error}</p>
+			)}
+			<div className="flex flex-wrap gap-1 mt-1 text-gray-500">
+				<span>Prelude:</span>
+				{Array.from(prelude.keys()).map((name) => (
+					<span
+						key={name}
+						className="px-1 bg-purple-50 text-purple-700 rounded font-mono"
+						title={printLambda(prelude.get(name)!, { foldNumerals: true })}
+					>
+						{name}
+					</span>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -1,175 +1,99 @@
 "use client";
 
-import { LambdaNode } from "@/lib/lambdaCalculus";
-
-// Remove unused import
-// import { LambdaNode } from "@/lib/lambdaCalculus";
-
-// Remove unused interface
-// interface EducationalPanelProps {
-// 	steps: LambdaNode[];
-// 	currentStep: number;
-// 	showLambdaNotation: boolean;
-// 	onToggleLambdaNotation: () => void;
-// }
-
-// Helper function to generate a simple textual representation of a lambda term
-function lambdaToString(node: LambdaNode): string {
-	switch (node.type) {
-		case "variable":
-			return node.name;
-		case "abstraction":
-			return `(λ${node.param}.${lambdaToString(node.body)})`;
-		case "application":
-			return `(${lambdaToString(node.func)} ${lambdaToString(node.arg)})`;
-		default:
-			return "unknown";
-	}
+import { combinatorRule } from "@/lib/combinators";
+import { LambdaNode, ReductionStep, Termination, subtermAt, terminationStatuses } from "@/lib/lambdaCalculus";
+import { defaultMacros, printLambda } from "@/lib/lambdaPrinter";
+
+interface EducationalPanelProps {
+	steps: ReductionStep[];
+	currentStep: number;
+	// How the evaluation ended, once it has
+	termination?: Termination | null;
 }
 
-// Find the difference between two nodes to identify what changed in the reduction
-function findDifference(
-	current: LambdaNode,
-	next: LambdaNode
-): { path: string[]; before: string; after: string; } | null {
-	// Compare nodes using paths to track location
-	function compare(
-		node1: LambdaNode,
-		node2: LambdaNode,
-		path: string[] = []
-	): { path: string[]; before: string; after: string; } | null {
-		// Check if node types differ
-		if (node1.type !== node2.type) {
-			return {
-				path,
-				before: lambdaToString(node1),
-				after: lambdaToString(node2)
-			};
-		}
-
-		// Check specific node types
-		if (node1.type === 'variable' && node2.type === 'variable') {
-			if (node1.name !== node2.name) {
-				return {
-					path,
-					before: node1.name,
-					after: node2.name
-				};
-			}
-		} else if (node1.type === 'abstraction' && node2.type === 'abstraction') {
-			// Check parameter names
-			if (node1.param !== node2.param) {
-				return {
-					path,
-					before: `λ${node1.param}`,
-					after: `λ${node2.param}`
-				};
-			}
-
-			// Check body recursively
-			return compare(node1.body, node2.body, [...path, 'body']);
-		} else if (node1.type === 'application' && node2.type === 'application') {
-			// Check function part recursively
-			const funcDiff = compare(node1.func, node2.func, [...path, 'func']);
-			if (funcDiff) return funcDiff;
-
-			// Check argument part recursively
-			return compare(node1.arg, node2.arg, [...path, 'arg']);
-		}
-
-		// No difference found in this branch
-		return null;
-	}
+// Print terms the same way the notation view does. A definition being unfolded is
+// shown in full rather than folded back into its own name.
+const show = (term: LambdaNode, unfolding?: string) =>
+	printLambda(term, {
+		foldNumerals: true,
+		macros: unfolding === undefined ? defaultMacros : defaultMacros.filter(macro => macro.name !== unfolding)
+	});
 
-	return compare(current, next);
-}
+// Generate a detailed explanation for the current reduction step
+function generateDetailedExplanation(steps: ReductionStep[], step: number, termination?: Termination | null): string {
+	const current = steps[step];
+	const next = steps[step + 1];
 
-// Identify if a node is a beta redex (a function application where the function is an abstraction)
-function findBetaRedex(node: LambdaNode): {
-	path: string[];
-	param: string;
-	body: LambdaNode;
-	arg: LambdaNode;
-} | null {
-	if (node.type === 'application' && node.func.type === 'abstraction') {
-		// Found a beta redex! (λx.body) arg
-		return {
-			path: [],
-			param: node.func.param,
-			body: node.func.body,
-			arg: node.arg
-		};
+	if (!current) {
+		return "";
 	}
 
-	// Recursively search deeper
-	if (node.type === 'application') {
-		// Check the function part
-		const funcRedex = findBetaRedex(node.func);
-		if (funcRedex) {
-			return {
-				...funcRedex,
-				path: ['func', ...funcRedex.path]
-			};
-		}
-
-		// Check the argument part
-		const argRedex = findBetaRedex(node.arg);
-		if (argRedex) {
-			return {
-				...argRedex,
-				path: ['arg', ...argRedex.path]
-			};
+	if (!next || !next.reduction) {
+		if (!termination) {
+			return "This is the latest step computed so far; the evaluation has not finished.";
 		}
-	} else if (node.type === 'abstraction') {
-		// Check the body
-		const bodyRedex = findBetaRedex(node.body);
-		if (bodyRedex) {
-			return {
-				...bodyRedex,
-				path: ['body', ...bodyRedex.path]
-			};
+		if (termination.status !== 'normalForm') {
+			const { label, description } = terminationStatuses[termination.status];
+			return `Evaluation stopped here: ${label.toLowerCase()}. ${description}`;
 		}
+		return step === 0
+			? "This term contains no redex for the selected strategy, so it is already the result."
+			: "This is the final result after all reductions have been performed. No redex remains for the selected strategy.";
 	}
 
-	// No beta redex found
-	return null;
-}
+	const intro = step === 0 ? "This is the starting term. " : "";
+	const reduction = next.reduction;
+	const redex = subtermAt(current.term, reduction.redexPath);
 
-// Generate a detailed explanation for the current reduction step
-function generateDetailedExplanation(current: LambdaNode, next: LambdaNode | undefined, step: number): string {
-	if (!next) {
-		return "This is the final result after all beta reductions have been performed. The expression is now in its simplest form (normal form).";
-	}
+	switch (reduction.rule) {
+		case 'beta': {
+			if (!redex || redex.type !== 'application' || redex.func.type !== 'abstraction') break;
 
-	if (step === 0) {
-		// First step - explain the initial Church encoding
-		return "This is the initial lambda calculus representation of your mathematical expression using Church encodings. Church numerals represent numbers as higher-order functions: λf.λx.f^n(x) where n is the number being represented.";
-	}
+			const param = reduction.boundVariable || redex.func.param;
+			const body = show(redex.func.body);
+			const arg = show(redex.arg);
+			const copies = reduction.substitutedPaths.length;
+			const usage = copies === 0
+				? `The variable ${param} does not occur in the body, so the argument is discarded.`
+				: `The variable ${param} occurs ${copies} time${copies === 1 ? '' : 's'} in the body, so ${copies === 1 ? 'one copy' : `${copies} copies`} of ${arg} ${copies === 1 ? 'is' : 'are'} substituted.`;
 
-	// Find the beta redex in the current term (if any)
-	const redex = findBetaRedex(current);
+			return `${intro}Performing β-reduction: (λ${param}.${body}) ${arg} → [${param} := ${arg}]${body}. ${usage}`;
+		}
 
-	// Find what changed between current and next
-	const diff = findDifference(current, next);
+		case 'alpha': {
+			const renames = (reduction.renamed || []).map(r => `${r.from} to ${r.to}`).join(", ");
+			const captured = (reduction.renamed || []).map(r => r.from).join(", ");
+			return `${intro}Performing α-conversion: renaming ${renames}. The argument about to be substituted for ${reduction.boundVariable} contains the free variable ${captured}, which the inner λ would otherwise capture. Renaming a bound variable does not change the meaning of the term.`;
+		}
 
-	if (redex) {
-		// Explain the beta reduction that's about to happen
-		const paramStr = redex.param;
-		const argStr = lambdaToString(redex.arg);
+		case 'eta':
+			return `${intro}Performing η-reduction on ${redex ? show(redex) : "the highlighted abstraction"}: a function that only passes its argument on is replaced by the function itself.`;
 
-		return `Performing β-reduction: (λ${paramStr}.${lambdaToString(redex.body)}) ${argStr} → [${paramStr} := ${argStr}]${lambdaToString(redex.body)}. This substitutes all occurrences of the variable ${paramStr} in the function body with the argument ${argStr}.`;
-	}
+		case 'etaExpansion': {
+			const param = reduction.boundVariable || "x";
+			const target = redex ? show(redex) : "the highlighted term";
+			return `${intro}Performing η-expansion: ${target} → λ${param}.(${target}) ${param}. The new function passes its argument straight on, so it behaves exactly like ${target}; the term grows, but its meaning does not change. Strategies never take this step by themselves, it was asked for.`;
+		}
 
-	if (diff) {
-		// Generic explanation based on what changed
-		return `The expression is being reduced by substituting values. ${diff.before} is being replaced with ${diff.after}.`;
+		case 'delta': {
+			const name = reduction.definition || (redex ? show(redex) : "the highlighted name");
+			const expansion = subtermAt(next.term, reduction.redexPath);
+			return `${intro}Unfolding the definition of ${name}${expansion ? ` = ${show(expansion, reduction.definition)}` : ""} so that it can take part in the reduction. Named terms are only expanded once the strategy reaches them.`;
+		}
+
+		case 'combinator': {
+			if (!reduction.combinator) break;
+			return `${intro}Rewriting ${redex ? show(redex) : reduction.combinator} by the rule ${combinatorRule(reduction.combinator)}. Combinators only rearrange, copy or drop their arguments, so no variable is substituted; the leftmost combinator with all its arguments goes first.`;
+		}
 	}
 
 	// Fallback explanation
-	return "Continuing the beta reduction process by applying substitution rules.";
+	return `${intro}Continuing the reduction process by applying substitution rules.`;
 }
 
-export default function EducationalPanel() {
+export default function EducationalPanel({ steps, currentStep, termination }: EducationalPanelProps) {
+	const explanation = generateDetailedExplanation(steps, currentStep, termination);
+
 	return (
 		<div className="bg-white rounded-lg shadow-sm border border-gray-100 p-3 text-sm">
 			<h3 className="font-medium text-blue-800 mb-2 flex items-center text-base">
@@ -181,6 +105,13 @@ export default function EducationalPanel() {
 			</h3>
 
 			<div className="space-y-2 text-gray-700">
+				{explanation && (
+					<div className="bg-amber-50 p-2 rounded-md">
+						<h4 className="font-medium text-amber-800 mb-1 text-xs">Step {currentStep + 1}</h4>
+						<p className="text-xs">{explanation}</p>
+					</div>
+				)}
+
 				<div className="bg-blue-50 p-2 rounded-md">
 					<h4 className="font-medium text-blue-800 mb-1 text-xs">Syntax</h4>
 					<ul className="list-disc pl-4 space-y-0.5 text-xs">
@@ -203,7 +134,7 @@ export default function EducationalPanel() {
 						</li>
 						<li>
 							<span className="font-medium">Eta</span>: Function extensionality
-							<div className="font-mono text-xs mt-0.5 bg-gray-50 p-0.5 rounded">λx.(M x) → M</div>
+							<div className="font-mono text-xs mt-0.5 bg-gray-50 p-0.5 rounded">λx.(M x) → M, and back: M → λx.(M x)</div>
 						</li>
 					</ul>
 				</div>
@@ -0,0 +1,68 @@
+"use client";
+
+import { LambdaNode } from "@/lib/lambdaCalculus";
+import { PrintOptions, defaultMacros, printLambda } from "@/lib/lambdaPrinter";
+import { useMemo, useState } from "react";
+
+interface TermNotationProps {
+	term: LambdaNode;
+}
+
+type NotationStyle = 'standard' | 'ascii' | 'deBruijn' | 'full';
+
+// Printer settings behind each entry of the notation picker
+const NOTATION_STYLES: Record<NotationStyle, { label: string; options: PrintOptions; }> = {
+	standard: { label: "Standard", options: {} },
+	ascii: { label: "ASCII", options: { notation: 'ascii' } },
+	deBruijn: { label: "De Bruijn", options: { deBruijn: true } },
+	full: { label: "Fully parenthesized", options: { parentheses: 'full', multiParam: false } },
+};
+
+export default function TermNotation({ term }: TermNotationProps) {
+	const [style, setStyle] = useState<NotationStyle>('standard');
+	const [fold, setFold] = useState<boolean>(true);
+	const [copied, setCopied] = useState<boolean>(false);
+
+	const text = useMemo(() => printLambda(term, {
+		...NOTATION_STYLES[style].options,
+		foldNumerals: fold,
+		macros: fold ? defaultMacros : []
+	}), [term, style, fold]);
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(text);
+			setCopied(true);
+			setTimeout(() => setCopied(false), 1500);
+		} catch (error) {
+			console.warn("Unable to copy term to clipboard:", error);
+		}
+	};
+
+	return (
+		<div className="bg-white p-2 rounded-lg border border-gray-100 text-xs">
+			<div className="flex items-center gap-2 mb-1">
+				<select
+					value={style}
+					onChange={(e) => setStyle(e.target.value as NotationStyle)}
+					className="bg-gray-50 border border-gray-200 rounded px-1 py-0.5"
+				>
+					{(Object.keys(NOTATION_STYLES) as NotationStyle[]).map((key) => (
+						<option key={key} value={key}>{NOTATION_STYLES[key].label}</option>
+					))}
+				</select>
+				<label className="flex items-center gap-1 text-gray-600">
+					<input type="checkbox" checked={fold} onChange={(e) => setFold(e.target.checked)} />
+					Fold numerals &amp; macros
+				</label>
+				<button
+					onClick={handleCopy}
+					className="ml-auto px-2 py-0.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+				>
+					{copied ? "Copied" : "Copy"}
+				</button>
+			</div>
+			<pre className="font-mono bg-gray-50 p-1 rounded whitespace-pre-wrap break-all max-h-20 overflow-auto">{text}</pre>
+		</div>
+	);
+}
@@ -1,13 +1,57 @@
 "use client";
 
+import { isCombinatorName } from "@/lib/combinators";
 import { useResizeObserver } from "@/lib/hooks/useResizeObserver";
-import { LambdaNode } from "@/lib/lambdaCalculus";
+import { Environment, LambdaNode, ReductionRule, ReductionStep, TermPath, occurrencePaths, subtermAt } from "@/lib/lambdaCalculus";
+import { defaultMacros, printLambda } from "@/lib/lambdaPrinter";
+import { TypeInference, formatType } from "@/lib/typeInference";
 import * as d3 from "d3";
 import { useCallback, useEffect, useRef } from "react";
 
 interface TrompDiagramProps {
-	steps: LambdaNode[];
+	steps: ReductionStep[];
 	currentStep: number;
+	// Names that are drawn as a single node until they are unfolded
+	definitions?: Environment;
+	// Draw S, K, I, B and C as combinators rather than variables, for compiled terms
+	combinators?: boolean;
+	// Types of the current term's subterms, added to the tooltips
+	types?: TypeInference | null;
+}
+
+const NO_DEFINITIONS: Environment = new Map();
+
+// Outline color of the nodes taking part in the upcoming step, by rule
+const RULE_COLORS: Record<ReductionRule, string> = {
+	alpha: "#f4a261",
+	beta: "#fff",
+	eta: "#2a9d8f",
+	etaExpansion: "#48cae4",
+	delta: "#9b5de5",
+	combinator: "#06d6a0"
+};
+
+// Outline color of the nodes placed by the previous substitution
+const SUBSTITUTED_COLOR = "#ffb703";
+
+// Fill of nodes standing for a definition that has not been unfolded yet
+const DEFINITION_COLOR = RULE_COLORS.delta;
+
+// Fill of combinator leaves of a compiled term
+const COMBINATOR_COLOR = "#118a7e";
+
+// Width of a definition node, wide enough for its name
+const definitionWidth = (name: string, minWidth: number) => Math.max(minWidth, name.length * 9 + 16);
+
+// Node id used in the hierarchy for the subterm at `path`
+const pathToId = (path: TermPath) => ["root", ...path].join("-");
+
+// Give a node a tooltip, filled in the first time the pointer enters it
+function showLabelOnHover(el: d3.Selection<SVGGElement, unknown, null, undefined>, label: () => string) {
+	const title = el.append("title");
+	el.on("mouseenter", () => {
+		if (!title.text()) title.text(label());
+	});
 }
 
 // Types for D3 hierarchy
@@ -15,17 +59,22 @@ interface TrompNode {
 	id: string;
 	type: string;
 	name?: string;
+	// Printed form of the subterm rooted here, shown as a tooltip. Printed on hover only:
+	// printing every subterm up front takes time quadratic in the size of the term.
+	label: () => string;
 	children: TrompNode[];
-	// Track if this node is part of a beta reduction
+	// Track if this node is part of the upcoming reduction
 	isReduced?: boolean;
+	// Track if this node was put in place by the previous substitution
+	isSubstituted?: boolean;
 }
 
-export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps) {
+export default function TrompDiagram({ steps, currentStep, definitions = NO_DEFINITIONS, combinators = false, types = null }: TrompDiagramProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const svgRef = useRef<SVGSVGElement>(null);
 	const zoomBehaviorRef = useRef<any>(null);
 	const gRef = useRef<SVGGElement | null>(null);
-	const previousStepsRef = useRef<LambdaNode[]>([]);
+	const previousStepsRef = useRef<ReductionStep[]>([]);
 	const previousStepIndexRef = useRef<number>(0);
 	const treeDataRef = useRef<any>(null);
 
@@ -36,41 +85,72 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 	const lambdaToHierarchy = useCallback((
 		node: LambdaNode,
 		reducedNodes: Set<string>,
-		id = "root"
+		substitutedNodes: Set<string>,
+		path: TermPath = [],
+		binders: string[] = []
 	): TrompNode => {
+		const id = pathToId(path);
 		const isReduced = reducedNodes.has(id);
+		const isSubstituted = substitutedNodes.has(id);
+		const type = types?.typeAt(path);
+		const typed = (printed: string) => type ? `${printed} : ${formatType(type)}` : printed;
+		const label = () => typed(printLambda(node, { foldNumerals: true, macros: defaultMacros }));
 
 		switch (node.type) {
-			case "variable":
+			case "variable": {
+				if (combinators && isCombinatorName(node.name)) {
+					return { id, type: "combinator", name: node.name, label, children: [], isReduced, isSubstituted };
+				}
+
+				// A free defined name stands for its (not yet unfolded) definition
+				const definition = definitions.get(node.name);
+				if (definition !== undefined && !binders.includes(node.name)) {
+					return {
+						id,
+						type: "definition",
+						name: node.name,
+						label: () => typed(`${node.name} = ${printLambda(definition, { foldNumerals: true })}`),
+						children: [],
+						isReduced,
+						isSubstituted
+					};
+				}
 				return {
 					id,
 					type: "variable",
 					name: node.name,
+					label,
 					children: [],
-					isReduced
+					isReduced,
+					isSubstituted
 				};
+			}
 			case "abstraction":
 				return {
 					id,
 					type: "abstraction",
 					name: node.param,
-					children: [lambdaToHierarchy(node.body, reducedNodes, `${id}-body`)],
-					isReduced
+					label,
+					children: [lambdaToHierarchy(node.body, reducedNodes, substitutedNodes, [...path, "body"], [...binders, node.param])],
+					isReduced,
+					isSubstituted
 				};
 			case "application":
 				return {
 					id,
 					type: "application",
+					label,
 					children: [
-						lambdaToHierarchy(node.func, reducedNodes, `${id}-func`),
-						lambdaToHierarchy(node.arg, reducedNodes, `${id}-arg`),
+						lambdaToHierarchy(node.func, reducedNodes, substitutedNodes, [...path, "func"], binders),
+						lambdaToHierarchy(node.arg, reducedNodes, substitutedNodes, [...path, "arg"], binders),
 					],
-					isReduced
+					isReduced,
+					isSubstituted
 				};
 			default:
-				return { id, type: "unknown", children: [], isReduced };
+				return { id, type: "unknown", label, children: [], isReduced, isSubstituted };
 		}
-	}, []);
+	}, [definitions, combinators, types]);
 
 	// Get node counts to determine appropriate sizing
 	const getNodeCount = useCallback((node: LambdaNode): number => {
@@ -86,43 +166,69 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 		}
 	}, []);
 
-	// Determine which nodes are part of the beta reduction in the current step
-	const getReducedNodes = useCallback((current: LambdaNode, next: LambdaNode | null): Set<string> => {
-		// If there's no next step, nothing is being reduced
-		if (!next) return new Set<string>();
-
-		// Track paths that differ between current and next
+	// Determine which nodes of the current term take part in the next step
+	const getReducedNodes = useCallback((current: LambdaNode, next: ReductionStep | null): Set<string> => {
 		const reducedNodes = new Set<string>();
 
-		// Helper to compare nodes recursively
-		const compareNodes = (node1: LambdaNode, node2: LambdaNode, path: string = 'root') => {
-			// Check if the node types are different
-			if (node1.type !== node2.type) {
-				reducedNodes.add(path);
-				return;
+		// If there's no next step, nothing is being reduced
+		const reduction = next?.reduction;
+		if (!reduction) return reducedNodes;
+
+		const { redexPath } = reduction;
+		switch (reduction.rule) {
+			case 'beta': {
+				// The application, its λ, the argument and every occurrence of the bound variable
+				reducedNodes.add(pathToId(redexPath));
+				reducedNodes.add(pathToId([...redexPath, 'func']));
+				reducedNodes.add(pathToId([...redexPath, 'arg']));
+
+				const bodyPath: TermPath = [...redexPath, 'func', 'body'];
+				const body = subtermAt(current, bodyPath);
+				if (body && reduction.boundVariable) {
+					occurrencePaths(body, reduction.boundVariable)
+						.forEach(path => reducedNodes.add(pathToId([...bodyPath, ...path])));
+				}
+				break;
 			}
 
-			// Check specific node types
-			if (node1.type === 'variable' && node2.type === 'variable') {
-				if (node1.name !== node2.name) {
-					reducedNodes.add(path);
-				}
-			} else if (node1.type === 'abstraction' && node2.type === 'abstraction') {
-				if (node1.param !== node2.param) {
-					reducedNodes.add(path);
+			case 'eta':
+				// The λ, the application in its body and the variable passed on
+				reducedNodes.add(pathToId(redexPath));
+				reducedNodes.add(pathToId([...redexPath, 'body']));
+				reducedNodes.add(pathToId([...redexPath, 'body', 'arg']));
+				break;
+
+			case 'alpha':
+				// Only the renamed binders change
+				(reduction.renamed || []).forEach(rename => reducedNodes.add(pathToId(rename.path)));
+				break;
+
+			case 'combinator': {
+				// The applications down the spine to the combinator, and its arguments
+				let path = redexPath;
+				let node = subtermAt(current, path);
+				while (node?.type === 'application') {
+					reducedNodes.add(pathToId(path));
+					reducedNodes.add(pathToId([...path, 'arg']));
+					path = [...path, 'func'];
+					node = node.func;
 				}
-				compareNodes(node1.body, node2.body, `${path}-body`);
-			} else if (node1.type === 'application' && node2.type === 'application') {
-				compareNodes(node1.func, node2.func, `${path}-func`);
-				compareNodes(node1.arg, node2.arg, `${path}-arg`);
+				reducedNodes.add(pathToId(path));
+				break;
 			}
-		};
 
-		// Compare current and next nodes
-		compareNodes(current, next);
+			default:
+				reducedNodes.add(pathToId(redexPath));
+		}
+
 		return reducedNodes;
 	}, []);
 
+	// Determine which nodes of the current term were placed by the step that produced it
+	const getSubstitutedNodes = useCallback((step: ReductionStep): Set<string> => {
+		return new Set((step.reduction?.substitutedPaths || []).map(pathToId));
+	}, []);
+
 	// Handle manual reset of view
 	const handleResetView = useCallback(() => {
 		if (svgRef.current && gRef.current && zoomBehaviorRef.current) {
@@ -314,17 +420,20 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 		previousStepsRef.current = steps;
 
 		// Get current step and next step (if it exists)
-		const currentNode = steps[currentStep];
-		const nextNode = currentStep < steps.length - 1 ? steps[currentStep + 1] : null;
+		const current = steps[currentStep];
+		const currentNode = current.term;
+		const next = currentStep < steps.length - 1 ? steps[currentStep + 1] : null;
+		const highlightColor = RULE_COLORS[next?.reduction?.rule || 'beta'];
 
 		// Calculate total node count to determine diagram size
 		const nodeCount = getNodeCount(currentNode);
 
-		// Track reduced nodes for highlighting
-		const reducedNodes = getReducedNodes(currentNode, nextNode);
+		// Track reduced and freshly substituted nodes for highlighting
+		const reducedNodes = getReducedNodes(currentNode, next);
+		const substitutedNodes = getSubstitutedNodes(current);
 
 		// Create hierarchy data
-		const hierarchyData = lambdaToHierarchy(currentNode, reducedNodes);
+		const hierarchyData = lambdaToHierarchy(currentNode, reducedNodes, substitutedNodes);
 
 		const svg = d3.select(svgRef.current)
 			.attr("width", "100%")
@@ -399,18 +508,22 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 					const baseColors = {
 						variable: "#a8dadc",
 						abstraction: "#e63946",
-						application: "#457b9d"
+						application: "#457b9d",
+						definition: DEFINITION_COLOR,
+						combinator: COMBINATOR_COLOR
 					};
 
 					const getColor = (type: string) => {
 						return baseColors[type as keyof typeof baseColors] || "#999";
 					};
 
-					if (nodeType === "variable") {
-						// Circle for variables
+					showLabelOnHover(el, hierarchyData.label);
+
+					if (nodeType === "variable" || nodeType === "combinator") {
+						// Circle for variables and combinators
 						el.append("circle")
 							.attr("r", 25)
-							.attr("fill", getColor("variable"));
+							.attr("fill", getColor(nodeType));
 
 						el.append("text")
 							.attr("dy", 5)
@@ -430,6 +543,23 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 							.attr("fill", "white")
 							.attr("font-size", "14px")
 							.text(`λ${hierarchyData.name || ""}`);
+					} else if (nodeType === "definition") {
+						// Rounded box with the name for definitions
+						const width = definitionWidth(hierarchyData.name || "", 50);
+						el.append("rect")
+							.attr("width", width)
+							.attr("height", 35)
+							.attr("x", -width / 2)
+							.attr("y", -17.5)
+							.attr("rx", 8)
+							.attr("fill", getColor("definition"));
+
+						el.append("text")
+							.attr("dy", 5)
+							.attr("text-anchor", "middle")
+							.attr("fill", "white")
+							.attr("font-size", "14px")
+							.text(hierarchyData.name || "");
 					} else if (nodeType === "application") {
 						// Rectangle for applications
 						el.append("rect")
@@ -475,19 +605,31 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 				const el = d3.select(this);
 				const nodeType = d.data.type;
 				const isHighlighted = d.data.isReduced;
+				const isSubstituted = d.data.isSubstituted;
+
+				// Outline marks the upcoming step in its rule's color, or a fresh substitution
+				const stroke = isHighlighted ? highlightColor : isSubstituted ? SUBSTITUTED_COLOR : "none";
+				const strokeWidth = isHighlighted ? 2 : isSubstituted ? 3 : 0;
+
+				// Tooltip with the subterm this node stands for
+				showLabelOnHover(el, d.data.label);
 
 				// Base colors
 				const baseColors = {
 					variable: "#a8dadc",
 					abstraction: "#e63946",
-					application: "#457b9d"
+					application: "#457b9d",
+					definition: DEFINITION_COLOR,
+					combinator: COMBINATOR_COLOR
 				};
 
 				// Highlight colors (brighter versions)
 				const highlightColors = {
 					variable: "#64c2ff",
 					abstraction: "#ff5d6a",
-					application: "#5da0ff"
+					application: "#5da0ff",
+					definition: "#b47cf0",
+					combinator: "#1bb8a8"
 				};
 
 				// Determine color based on highlight state
@@ -498,20 +640,32 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 					return baseColors[type as keyof typeof baseColors] || "#999";
 				};
 
-				if (nodeType === "variable") {
-					// Circle for variables
+				if (nodeType === "variable" || nodeType === "combinator") {
+					// Circle for variables and combinators
 					el.append("circle")
 						.attr("r", 20)
-						.attr("fill", getColor("variable"))
-						.attr("stroke", isHighlighted ? "#fff" : "none")
-						.attr("stroke-width", isHighlighted ? 2 : 0);
+						.attr("fill", getColor(nodeType))
+						.attr("stroke", stroke)
+						.attr("stroke-width", strokeWidth);
 				} else if (nodeType === "abstraction") {
 					// Diamond for abstractions
 					el.append("path")
 						.attr("d", d3.symbol().type(d3.symbolDiamond).size(800))
 						.attr("fill", getColor("abstraction"))
-						.attr("stroke", isHighlighted ? "#fff" : "none")
-						.attr("stroke-width", isHighlighted ? 2 : 0);
+						.attr("stroke", stroke)
+						.attr("stroke-width", strokeWidth);
+				} else if (nodeType === "definition") {
+					// Rounded box with the name for definitions
+					const width = definitionWidth(d.data.name || "", 40);
+					el.append("rect")
+						.attr("width", width)
+						.attr("height", 30)
+						.attr("x", -width / 2)
+						.attr("y", -15)
+						.attr("rx", 8)
+						.attr("fill", getColor("definition"))
+						.attr("stroke", stroke)
+						.attr("stroke-width", strokeWidth);
 				} else if (nodeType === "application") {
 					// Rectangle for applications
 					el.append("rect")
@@ -520,12 +674,12 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 						.attr("x", -20)
 						.attr("y", -15)
 						.attr("fill", getColor("application"))
-						.attr("stroke", isHighlighted ? "#fff" : "none")
-						.attr("stroke-width", isHighlighted ? 2 : 0);
+						.attr("stroke", stroke)
+						.attr("stroke-width", strokeWidth);
 				}
 
 				// Labels with better contrast
-				if (nodeType === "variable") {
+				if (nodeType === "variable" || nodeType === "definition" || nodeType === "combinator") {
 					el.append("text")
 						.attr("dy", 5)
 						.attr("text-anchor", "middle")
@@ -603,6 +757,8 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 				.attr("fill", d => {
 					if (d.data.type === "variable") return "#a8dadc";
 					if (d.data.type === "abstraction") return "#e63946";
+					if (d.data.type === "definition") return DEFINITION_COLOR;
+					if (d.data.type === "combinator") return COMBINATOR_COLOR;
 					return "#457b9d";
 				});
 		}
@@ -613,7 +769,7 @@ export default function TrompDiagram({ steps, currentStep }: TrompDiagramProps)
 			handleFitToView();
 		}, 100);
 
-	}, [steps, currentStep, dimensions, lambdaToHierarchy, getReducedNodes, getNodeCount, handleFitToView]);
+	}, [steps, currentStep, dimensions, lambdaToHierarchy, getReducedNodes, getSubstitutedNodes, getNodeCount, handleFitToView]);
 
 	return (
 		<div
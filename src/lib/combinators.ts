@@ -0,0 +1,313 @@
+import {
+	Environment,
+	EvaluationOptions,
+	EvaluationOutcome,
+	LambdaNode,
+	ReductionDetails,
+	ReductionStep,
+	TermPath,
+	application,
+	defaultLimits,
+	evaluate,
+	freeVariables,
+	substitute,
+	termSize,
+	variable
+} from './lambdaCalculus';
+import { parseLambdaProgram } from './lambdaParser';
+import { printLambda } from './lambdaPrinter';
+
+// Combinatory logic: terms built from a few fixed combinators by application alone.
+// Bracket abstraction compiles a lambda term into such a term, which then reduces by
+// rearranging arguments, with no variables to bind, substitute or rename.
+// Combinator terms are ordinary LambdaNodes without abstractions; the combinators
+// are the variables named S, K, I, B and C.
+
+// Sets of combinators a term can be compiled to
+export type CombinatorBasis = 'ski' | 'skibc';
+
+// Labels and short descriptions of the bases, for the reduction picker
+export const combinatorBases: Record<CombinatorBasis, { label: string; description: string; }> = {
+	ski: {
+		label: 'SKI combinators',
+		description: 'Every λ is compiled away with S, K and I alone. Simple, but compiled terms grow quickly.'
+	},
+	skibc: {
+		label: 'SKIBC combinators',
+		description: 'B and C pass the argument to one side of an application only, instead of S copying it to both. Compiled terms stay much smaller.'
+	}
+};
+
+// How a combinator rearranges its arguments
+interface CombinatorRule {
+	arity: number;
+	contract(args: LambdaNode[]): LambdaNode;
+	// Where the arguments end up in the contracted term
+	placed: TermPath[];
+}
+
+const COMBINATOR_RULES: Record<string, CombinatorRule> = {
+	// I x → x
+	I: { arity: 1, contract: ([x]) => x, placed: [[]] },
+	// K x y → x
+	K: { arity: 2, contract: ([x]) => x, placed: [[]] },
+	// S x y z → x z (y z)
+	S: {
+		arity: 3,
+		contract: ([x, y, z]) => application(application(x, z), application(y, z)),
+		placed: [['func', 'func'], ['func', 'arg'], ['arg', 'func'], ['arg', 'arg']]
+	},
+	// B x y z → x (y z)
+	B: {
+		arity: 3,
+		contract: ([x, y, z]) => application(x, application(y, z)),
+		placed: [['func'], ['arg', 'func'], ['arg', 'arg']]
+	},
+	// C x y z → x z y
+	C: {
+		arity: 3,
+		contract: ([x, y, z]) => application(application(x, z), y),
+		placed: [['func', 'func'], ['func', 'arg'], ['arg']]
+	}
+};
+
+// What the combinators stand for as lambda terms
+export const combinatorDefinitions: Environment = new Map(parseLambdaProgram(`
+	I = λx.x;
+	K = λx y.x;
+	S = λx y z.x z (y z);
+	B = λx y z.x (y z);
+	C = λx y z.x z y;
+`).definitions.map(({ name, term }) => [name, term]));
+
+// Whether a variable of a combinator term is one of the combinators
+export function isCombinatorName(name: string): boolean {
+	return Object.prototype.hasOwnProperty.call(COMBINATOR_RULES, name);
+}
+
+// The rewrite rule of a combinator, as shown in explanations, e.g. "S x y z → x z (y z)"
+export function combinatorRule(name: string): string {
+	const params = ['x', 'y', 'z'].slice(0, COMBINATOR_RULES[name].arity).map(param => variable(param));
+	const result = COMBINATOR_RULES[name].contract(params);
+	return `${name} ${params.map(param => param.name).join(' ')} → ${printLambda(result)}`;
+}
+
+// Replace every defined name by its definition. Definitions are stored closed, so
+// this never captures a variable and leaves no defined name behind.
+function unfoldDefinitions(term: LambdaNode, definitions: Environment): LambdaNode {
+	let unfolded = term;
+	freeVariables(term).forEach(name => {
+		const definition = definitions.get(name);
+		if (definition !== undefined) {
+			unfolded = substitute(unfolded, name, definition);
+		}
+	});
+	return unfolded;
+}
+
+// [x] M: a term without `name` that, applied to N, reduces to M with N for `name`.
+// M must already be free of abstractions.
+function abstractName(name: string, term: LambdaNode, basis: CombinatorBasis): LambdaNode {
+	if (!freeVariables(term).has(name)) {
+		return application(variable('K'), term);
+	}
+	if (term.type !== 'application') {
+		return variable('I');
+	}
+
+	const { func, arg } = term;
+	if (basis === 'skibc') {
+		// No η rule (λx.M x to M): reading the result back as a lambda term must give
+		// the normal form of the original term, not just an η-equivalent one
+		const inFunc = freeVariables(func).has(name);
+		const inArg = freeVariables(arg).has(name);
+		if (!inFunc) {
+			return application(application(variable('B'), func), abstractName(name, arg, basis));
+		}
+		if (!inArg) {
+			return application(application(variable('C'), abstractName(name, func, basis)), arg);
+		}
+	}
+	return application(
+		application(variable('S'), abstractName(name, func, basis)),
+		abstractName(name, arg, basis)
+	);
+}
+
+// Compile a lambda term to combinators by bracket abstraction, innermost λ first.
+// Free variables stay as they are, so they must not be named like a combinator.
+export function compileToCombinators(term: LambdaNode, basis: CombinatorBasis = 'ski'): LambdaNode {
+	switch (term.type) {
+		case 'variable':
+			return term;
+
+		case 'abstraction':
+			return abstractName(term.param, compileToCombinators(term.body, basis), basis);
+
+		case 'application':
+			return application(compileToCombinators(term.func, basis), compileToCombinators(term.arg, basis));
+
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+}
+
+// The lambda term a combinator term stands for
+export function combinatorsToLambda(term: LambdaNode): LambdaNode {
+	switch (term.type) {
+		case 'variable':
+			return combinatorDefinitions.get(term.name) ?? term;
+
+		case 'abstraction':
+			return term;
+
+		case 'application':
+			return application(combinatorsToLambda(term.func), combinatorsToLambda(term.arg));
+
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+}
+
+// A combinator normal form can still contain β-redexes once the combinators are read
+// as lambda terms, since combinators never reduce below their missing arguments. This
+// reduces the lambda reading to normal form (normal order, within the limits) so that
+// it can be decoded, or returns null if it does not get there.
+export function combinatorNormalForm(term: LambdaNode, options: EvaluationOptions = {}): LambdaNode | null {
+	const { result, status } = evaluate(combinatorsToLambda(term), { ...options, strategy: 'normal' });
+	return status === 'normalForm' ? result : null;
+}
+
+// Combinator terms known to be in normal form. The rules do not depend on anything but
+// the term, and terms are shared, so a subterm never needs to be searched twice.
+const normalForms = new WeakSet<LambdaNode>();
+
+// Contract the leftmost-outermost combinator redex: the head of the term if it has
+// enough arguments, otherwise the first argument that contains a redex
+function contractLeftmost(term: LambdaNode, maxDepth: number): {
+	reduced: LambdaNode;
+	step?: ReductionDetails;
+	depthExceeded?: boolean;
+} {
+	// Set once the depth limit cut the search short, so results are incomplete
+	let truncated = false;
+	let step: ReductionDetails | undefined;
+
+	// Path from the root to the node being visited
+	const path: TermPath = [];
+
+	// The node with one redex contracted, or null if it is in normal form
+	function visit(node: LambdaNode, depth: number): LambdaNode | null {
+		if (depth > maxDepth) {
+			truncated = true;
+			return null;
+		}
+		if (normalForms.has(node)) {
+			return null;
+		}
+
+		const reduced = visitSpine(node, depth);
+		if (reduced === null && !truncated) {
+			normalForms.add(node);
+		}
+		return reduced;
+	}
+
+	function visitSpine(node: LambdaNode, depth: number): LambdaNode | null {
+		// Unwind node = head a1 ... an
+		const args: LambdaNode[] = [];
+		let head = node;
+		while (head.type === 'application') {
+			args.push(head.arg);
+			head = head.func;
+		}
+		args.reverse();
+
+		const rule = head.type === 'variable' ? COMBINATOR_RULES[head.name] : undefined;
+		if (head.type === 'variable' && rule && args.length >= rule.arity) {
+			// The redex applies the head to its first `arity` arguments
+			const redexPath: TermPath = [...path, ...Array<'func'>(args.length - rule.arity).fill('func')];
+			step = {
+				rule: 'combinator',
+				combinator: head.name,
+				redexPath,
+				substitutedPaths: rule.placed.map(placed => [...redexPath, ...placed])
+			};
+			return args.slice(rule.arity).reduce<LambdaNode>(application, rule.contract(args.slice(0, rule.arity)));
+		}
+
+		for (let i = 0; i < args.length; i++) {
+			const field: TermPath = [...Array<'func'>(args.length - 1 - i).fill('func'), 'arg'];
+			path.push(...field);
+			const reduced = visit(args[i], depth + 1);
+			path.length -= field.length;
+
+			if (reduced !== null) {
+				return args.reduce<LambdaNode>((func, arg, j) => application(func, j === i ? reduced : arg), head);
+			}
+		}
+		return null;
+	}
+
+	const reduced = visit(term, 0);
+	if (reduced === null) {
+		return truncated ? { reduced: term, depthExceeded: true } : { reduced: term };
+	}
+	return { reduced, step };
+}
+
+// Compile a term (with its defined names unfolded) to combinators and reduce it,
+// leftmost-outermost, yielding each step as evaluateSteps does. Combinators only
+// reduce once they have all their arguments, so there is no choice of strategy.
+export function* evaluateCombinatorSteps(
+	term: LambdaNode,
+	basis: CombinatorBasis,
+	options: EvaluationOptions = {}
+): Generator<ReductionStep, EvaluationOutcome, void> {
+	const {
+		maxSteps = defaultLimits.maxSteps,
+		maxSize = defaultLimits.maxSize,
+		maxDepth = defaultLimits.maxDepth,
+		definitions = new Map()
+	} = options;
+
+	const unfolded = unfoldDefinitions(term, definitions);
+	const clash = Array.from(freeVariables(unfolded)).find(isCombinatorName);
+	if (clash !== undefined) {
+		throw new Error(`${clash} is free in the term and would be read as a combinator`);
+	}
+
+	let current = compileToCombinators(unfolded, basis);
+	yield { term: current, reduction: null };
+
+	if (termSize(current) > maxSize) {
+		return { result: current, status: 'sizeLimit' };
+	}
+
+	// Without binders, a term that repeats is the very same shared node
+	const seen = new Map<LambdaNode, number>([[current, 0]]);
+	let stepCount = 0;
+
+	while (stepCount < maxSteps) {
+		const { reduced, step, depthExceeded } = contractLeftmost(current, maxDepth);
+		if (!step) {
+			return { result: current, status: depthExceeded ? 'depthLimit' : 'normalForm' };
+		}
+
+		current = reduced;
+		yield { term: current, reduction: step };
+		stepCount++;
+
+		if (termSize(current) > maxSize) {
+			return { result: current, status: 'sizeLimit' };
+		}
+
+		const earlier = seen.get(current);
+		if (earlier !== undefined) {
+			return { result: current, status: 'cycle', cycleStart: earlier };
+		}
+		seen.set(current, stepCount);
+	}
+
+	return { result: current, status: 'stepLimit' };
+}
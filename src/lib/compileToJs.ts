@@ -0,0 +1,199 @@
+import type { ListEncodingName } from './encodings';
+import type { Environment, LambdaNode } from './lambdaCalculus';
+
+// Compiles lambda terms to JavaScript closures, to compute a result directly when the
+// step-by-step trace would take too long. Arguments are passed unevaluated and
+// evaluated at most once (call by need), so a compiled term computes whatever normal
+// order would, but nothing is recorded along the way.
+//
+// A compiled value cannot be printed as a term; it is read by applying it to native
+// functions, e.g. a Church numeral to an increment and 0, and counting.
+
+// A compiled function, taking its argument unevaluated
+export type Closure = (arg: Thunk) => Value;
+
+// A value passed in by a reader, e.g. the 0 a numeral is applied to
+export interface NativeValue {
+	native: unknown;
+}
+
+export type Value = Closure | NativeValue;
+
+// An argument, evaluated when it is first used
+export type Thunk = () => Value;
+
+// Applications of compiled functions allowed in one run. Each one is a β-step.
+export const DEFAULT_FUEL = 1_000_000;
+
+// Ends a run: out of fuel, or the value is not shaped the way the reader expects
+class RunAborted extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'RunAborted';
+	}
+}
+
+// Compiled code: computes a value given the arguments of the enclosing λs, innermost first
+type Code = (scope: Scope | null) => Value;
+
+interface Scope {
+	value: Thunk;
+	next: Scope | null;
+}
+
+// Fuel left in the current run. Runs never nest, so one counter is enough.
+let fuel = 0;
+
+// Compiled definitions, by term. Definitions are closed, so their code never changes.
+const definitionCode = new WeakMap<LambdaNode, Code>();
+
+// Stop the run because a value is not what the reader expected
+export function mismatch(expected: string): never {
+	throw new RunAborted(`Expected ${expected}`);
+}
+
+function delay(compute: () => Value): Thunk {
+	let value: Value | undefined;
+	return () => value ?? (value = compute());
+}
+
+// A thunk that is already evaluated
+export const ready = (value: Value): Thunk => () => value;
+
+export function apply(func: Value, arg: Thunk): Value {
+	return typeof func === 'function' ? func(arg) : mismatch('a function');
+}
+
+// The native value a reader passed in, or a mismatch
+export function nativeOf(value: Value): unknown {
+	return typeof value === 'function' ? mismatch('a native value') : value.native;
+}
+
+// Compile `term` with `binders` as the parameters of the enclosing λs, outermost first.
+// Returns null if a free variable has no definition, since its value is unknown.
+function compile(term: LambdaNode, definitions: Environment, binders: string[]): Code | null {
+	switch (term.type) {
+		case 'variable': {
+			const index = binders.lastIndexOf(term.name);
+			if (index >= 0) {
+				const depth = binders.length - 1 - index;
+				return scope => {
+					let current = scope!;
+					for (let i = 0; i < depth; i++) current = current.next!;
+					return current.value();
+				};
+			}
+
+			const definition = definitions.get(term.name);
+			if (definition === undefined) return null;
+			let code = definitionCode.get(definition);
+			if (!code) {
+				const compiled = compile(definition, new Map(), []);
+				if (!compiled) return null;
+				code = compiled;
+				definitionCode.set(definition, code);
+			}
+			const closed = code;
+			return () => closed(null);
+		}
+
+		case 'abstraction': {
+			const body = compile(term.body, definitions, [...binders, term.param]);
+			if (!body) return null;
+			return scope => (arg: Thunk) => {
+				if (--fuel < 0) throw new RunAborted('Out of fuel');
+				return body({ value: arg, next: scope });
+			};
+		}
+
+		case 'application': {
+			const func = compile(term.func, definitions, binders);
+			const arg = compile(term.arg, definitions, binders);
+			if (!func || !arg) return null;
+			return scope => apply(func(scope), delay(() => arg(scope)));
+		}
+
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+}
+
+// Compile and run a term, then read its value. Returns null if the term has free
+// variables without a definition, runs out of fuel or stack, or is not what `read`
+// expects.
+export function computeCompiled<T>(
+	term: LambdaNode,
+	read: (value: Value) => T,
+	{ definitions = new Map(), maxFuel = DEFAULT_FUEL }: { definitions?: Environment; maxFuel?: number; } = {}
+): T | null {
+	const code = compile(term, definitions, []);
+	if (!code) return null;
+
+	fuel = maxFuel;
+	try {
+		return read(code(null));
+	} catch (error) {
+		// Deep recursion in the compiled code overflows the JavaScript stack
+		if (error instanceof RunAborted || error instanceof RangeError) return null;
+		throw error;
+	}
+}
+
+// A successor that readers count later. Forcing one predecessor at a time, in a loop,
+// keeps the JavaScript stack shallow even for large numerals and long lists.
+class Successor {
+	constructor(readonly predecessor: Thunk) { }
+}
+
+const successor: Closure = predecessor => ({ native: new Successor(predecessor) });
+const ZERO: Value = { native: 0 };
+
+// Count how often a Church numeral applies its first argument
+export function readChurchNumeral(value: Value): number {
+	let current = apply(apply(value, ready(successor)), ready(ZERO));
+	let count = 0;
+	while (current !== ZERO) {
+		const native = nativeOf(current);
+		if (!(native instanceof Successor)) mismatch('a Church numeral');
+		count++;
+		current = native.predecessor();
+	}
+	return count;
+}
+
+// Which of its two arguments a Church boolean returns
+export function readBoolean(value: Value): boolean {
+	const chosen = nativeOf(apply(apply(value, ready({ native: true })), ready({ native: false })));
+	return typeof chosen === 'boolean' ? chosen : mismatch('a boolean');
+}
+
+// The two parts of a pair λf.f a b, unevaluated
+export function readPair(value: Value): [Thunk, Thunk] {
+	const parts = nativeOf(apply(value, ready(first => second => ({ native: [first, second] }))));
+	return Array.isArray(parts) && parts.length === 2 ? parts as [Thunk, Thunk] : mismatch('a pair');
+}
+
+// A list cell that readers walk later, like Successor
+class Cell {
+	constructor(readonly head: Thunk, readonly tail: Thunk) { }
+}
+
+const cell: Closure = head => tail => ({ native: new Cell(head, tail) });
+const EMPTY: Value = { native: null };
+
+// The items of a list, unevaluated. A Church list folds the cells itself
+// (c h1 (c h2 n)); a Scott list only matches its first one (c h1 t1), so the tail is
+// matched again.
+export function readList(value: Value, encoding: ListEncodingName): Thunk[] {
+	const match = (list: Value) => apply(apply(list, ready(cell)), ready(EMPTY));
+
+	const items: Thunk[] = [];
+	let current = match(value);
+	while (current !== EMPTY) {
+		const native = nativeOf(current);
+		if (!(native instanceof Cell)) mismatch('a list');
+		items.push(native.head);
+		current = encoding === 'church' ? native.tail() : match(native.tail());
+	}
+	return items;
+}
@@ -0,0 +1,166 @@
+import type { LambdaNode } from './lambdaCalculus';
+
+// Nameless representation of lambda terms: a bound variable is the number of
+// binders between its occurrence and the λ that binds it (0 = nearest λ)
+export type DeBruijnNode =
+	| DeBruijnIndex
+	| DeBruijnFree
+	| DeBruijnAbstraction
+	| DeBruijnApplication;
+
+export interface DeBruijnIndex {
+	type: 'index';
+	index: number;
+}
+
+// Free variables keep their names, since no binder determines them
+export interface DeBruijnFree {
+	type: 'free';
+	name: string;
+}
+
+export interface DeBruijnAbstraction {
+	type: 'abstraction';
+	body: DeBruijnNode;
+	// Original parameter name, used as a naming suggestion when converting back
+	hint?: string;
+}
+
+export interface DeBruijnApplication {
+	type: 'application';
+	func: DeBruijnNode;
+	arg: DeBruijnNode;
+}
+
+// Convert a named term to its De Bruijn form
+export function toDeBruijn(term: LambdaNode): DeBruijnNode {
+	// `binders` lists the enclosing parameters, innermost last
+	function convert(node: LambdaNode, binders: string[]): DeBruijnNode {
+		switch (node.type) {
+			case 'variable': {
+				const position = binders.lastIndexOf(node.name);
+				return position === -1
+					? { type: 'free', name: node.name }
+					: { type: 'index', index: binders.length - 1 - position };
+			}
+
+			case 'abstraction':
+				return {
+					type: 'abstraction',
+					body: convert(node.body, [...binders, node.param]),
+					hint: node.param
+				};
+
+			case 'application':
+				return {
+					type: 'application',
+					func: convert(node.func, binders),
+					arg: convert(node.arg, binders)
+				};
+
+			default:
+				throw new Error(`Unknown term type: ${(node as any).type}`);
+		}
+	}
+
+	return convert(term, []);
+}
+
+// Names tried, in order, for binders that have no usable hint
+const DEFAULT_NAMES = ['x', 'y', 'z', 'w', 'v', 'u'];
+
+// Collect the names of the free variables of a De Bruijn term
+function freeNames(term: DeBruijnNode, names: Set<string> = new Set()): Set<string> {
+	switch (term.type) {
+		case 'free':
+			names.add(term.name);
+			break;
+		case 'abstraction':
+			freeNames(term.body, names);
+			break;
+		case 'application':
+			freeNames(term.func, names);
+			freeNames(term.arg, names);
+			break;
+	}
+	return names;
+}
+
+// Convert a De Bruijn term back to named form. Each binder gets its hint when that
+// name is not already in scope or free in the term, otherwise the first unused default name.
+export function fromDeBruijn(term: DeBruijnNode): LambdaNode {
+	const free = freeNames(term);
+
+	function pickName(hint: string | undefined, scope: string[]): string {
+		const taken = (name: string) => free.has(name) || scope.includes(name);
+
+		if (hint && !taken(hint)) return hint;
+
+		for (const name of DEFAULT_NAMES) {
+			if (!taken(name)) return name;
+		}
+
+		const base = hint || DEFAULT_NAMES[0];
+		let counter = 1;
+		while (taken(`${base}${counter}`)) counter++;
+		return `${base}${counter}`;
+	}
+
+	function convert(node: DeBruijnNode, scope: string[]): LambdaNode {
+		switch (node.type) {
+			case 'index': {
+				const name = scope[scope.length - 1 - node.index];
+				if (name === undefined) {
+					throw new Error(`Unbound De Bruijn index ${node.index}`);
+				}
+				return { type: 'variable', name };
+			}
+
+			case 'free':
+				return { type: 'variable', name: node.name };
+
+			case 'abstraction': {
+				const param = pickName(node.hint, scope);
+				return { type: 'abstraction', param, body: convert(node.body, [...scope, param]) };
+			}
+
+			case 'application':
+				return { type: 'application', func: convert(node.func, scope), arg: convert(node.arg, scope) };
+
+			default:
+				throw new Error(`Unknown De Bruijn node type: ${(node as any).type}`);
+		}
+	}
+
+	return convert(term, []);
+}
+
+// Two terms are alpha-equivalent when they differ only in the names of bound variables,
+// i.e. when their De Bruijn forms coincide
+export function alphaEquivalent(a: LambdaNode, b: LambdaNode): boolean {
+	// Walk both terms in lockstep, comparing bound variables by binder position
+	function compare(x: LambdaNode, y: LambdaNode, xBinders: string[], yBinders: string[]): boolean {
+		if (x === y && xBinders.length === 0) return true;
+
+		if (x.type === 'variable' && y.type === 'variable') {
+			const xIndex = xBinders.lastIndexOf(x.name);
+			const yIndex = yBinders.lastIndexOf(y.name);
+			if (xIndex === -1 || yIndex === -1) {
+				return xIndex === yIndex && x.name === y.name;
+			}
+			return xBinders.length - xIndex === yBinders.length - yIndex;
+		}
+
+		if (x.type === 'abstraction' && y.type === 'abstraction') {
+			return compare(x.body, y.body, [...xBinders, x.param], [...yBinders, y.param]);
+		}
+
+		if (x.type === 'application' && y.type === 'application') {
+			return compare(x.func, y.func, xBinders, yBinders) && compare(x.arg, y.arg, xBinders, yBinders);
+		}
+
+		return false;
+	}
+
+	return compare(a, b, [], []);
+}
@@ -0,0 +1,98 @@
+import { alphaEquivalent } from './deBruijn';
+import { ListEncodingName, NumeralEncodingName, listEncodings, numeralEncodings } from './encodings';
+import { LambdaNode, extractBoolean, pairParts } from './lambdaCalculus';
+import { parseLambdaProgram } from './lambdaParser';
+import { printLambda } from './lambdaPrinter';
+
+// Reading normal forms back as values when nothing says what they are meant to be,
+// as for lambda input. The encodings overlap (λx y.y is 0, false and the empty list
+// alike), so a term can have several readings.
+
+// A value a term encodes. Parts of pairs and lists that have no reading of their
+// own are kept as terms.
+export type DecodedValue =
+	| { kind: 'numeral'; encoding: NumeralEncodingName; value: number; }
+	| { kind: 'boolean'; value: boolean; }
+	| { kind: 'pair'; first: DecodedValue; second: DecodedValue; }
+	| { kind: 'list'; encoding: ListEncodingName; items: DecodedValue[]; }
+	| { kind: 'combinator'; name: string; }
+	| { kind: 'term'; term: LambdaNode; };
+
+// Reads one kind of value: the value a term encodes, or null if it is not one of these
+export type ResultDecoder = (term: LambdaNode) => DecodedValue | null;
+
+// The most specific reading of a part of a pair or list, or the part itself
+function decodePart(term: LambdaNode): DecodedValue {
+	return decodeResult(term)[0] ?? { kind: 'term', term };
+}
+
+// Combinators better known by name than by their terms
+const COMBINATORS = parseLambdaProgram(`
+	I = λx.x;
+	K = λx y.x;
+	S = λx y z.x z (y z);
+	B = λx y z.x (y z);
+	C = λx y z.x z y;
+	W = λx y.x y y;
+	M = λx.x x;
+`).definitions;
+
+const numeralDecoders = (Object.keys(numeralEncodings) as NumeralEncodingName[]).map((encoding): ResultDecoder => term => {
+	const value = numeralEncodings[encoding].decode(term);
+	return value === null ? null : { kind: 'numeral', encoding, value };
+});
+
+const listDecoders = (Object.keys(listEncodings) as ListEncodingName[]).map((encoding): ResultDecoder => term => {
+	const items = listEncodings[encoding].decode(term);
+	return items === null ? null : { kind: 'list', encoding, items: items.map(decodePart) };
+});
+
+// The decoders decodeResult tries, in order. Add to it to recognize more values.
+export const resultDecoders: ResultDecoder[] = [
+	...numeralDecoders,
+	term => {
+		const value = extractBoolean(term);
+		return value === null ? null : { kind: 'boolean', value };
+	},
+	term => {
+		const parts = pairParts(term);
+		return parts && { kind: 'pair', first: decodePart(parts[0]), second: decodePart(parts[1]) };
+	},
+	...listDecoders,
+	term => {
+		const combinator = COMBINATORS.find(definition => alphaEquivalent(definition.term, term));
+		return combinator ? { kind: 'combinator', name: combinator.name } : null;
+	}
+];
+
+// Every reading of a normal form, in the order of the decoders. An empty array means
+// that no decoder recognized the term.
+export function decodeResult(term: LambdaNode, decoders: ResultDecoder[] = resultDecoders): DecodedValue[] {
+	return decoders
+		.map(decode => decode(term))
+		.filter((value): value is DecodedValue => value !== null);
+}
+
+// Show a decoded value the way it would be written in the calculator
+export function formatDecodedValue(value: DecodedValue): string {
+	switch (value.kind) {
+		case 'numeral': return String(value.value);
+		case 'boolean': return String(value.value);
+		case 'pair': return `(${formatDecodedValue(value.first)}, ${formatDecodedValue(value.second)})`;
+		case 'list': return `[${value.items.map(formatDecodedValue).join(', ')}]`;
+		case 'combinator': return value.name;
+		case 'term': return printLambda(value.term);
+	}
+}
+
+// What kind of value a decoded value is, e.g. "Scott numeral"
+export function describeDecodedValue(value: DecodedValue): string {
+	switch (value.kind) {
+		case 'numeral': return `${numeralEncodings[value.encoding].label} numeral`;
+		case 'boolean': return "Boolean";
+		case 'pair': return "Pair";
+		case 'list': return `${listEncodings[value.encoding].label} list`;
+		case 'combinator': return "Combinator";
+		case 'term': return "Term";
+	}
+}
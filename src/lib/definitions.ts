@@ -0,0 +1,155 @@
+import {
+	Definition,
+	Environment,
+	LambdaNode,
+	churchAdd,
+	churchMultiply,
+	churchPredecessor,
+	churchSubtract,
+	freeVariables,
+	substitute
+} from './lambdaCalculus';
+import { parseLambdaProgram } from './lambdaParser';
+import { ParseError } from './parseError';
+
+// Named terms for lambda input. Definitions are stored closed: names of earlier
+// definitions used in a body are replaced by their terms when the definition is
+// made, so unfolding a name can never capture a variable of the surrounding term.
+
+// Add definitions to an environment, in order; each may use the ones before it
+export function extendEnvironment(base: Environment, definitions: Definition[]): Environment {
+	const environment = new Map(base);
+
+	for (const { name, term } of definitions) {
+		if (freeVariables(term).has(name)) {
+			throw new Error(`${name} cannot refer to itself; use Y for recursive definitions`);
+		}
+
+		let closed: LambdaNode = term;
+		freeVariables(term).forEach(free => {
+			const definition = environment.get(free);
+			if (definition !== undefined) {
+				closed = substitute(closed, free, definition);
+			}
+		});
+
+		environment.set(name, closed);
+	}
+
+	return environment;
+}
+
+// Combinators, booleans and pairs, which every numeral encoding builds on
+const CORE_SOURCE = `
+	I = λx.x;
+	K = λx y.x;
+	S = λx y z.x z (y z);
+	Y = λf.(λx.f (x x)) (λx.f (x x));
+	OMEGA = (λx.x x) (λx.x x);
+	TRUE = λt f.t;
+	FALSE = λt f.f;
+	IF = λb t f.b t f;
+	NOT = λb.b FALSE TRUE;
+	AND = λp q.p q p;
+	OR = λp q.p p q;
+	XOR = λp q.p (NOT q) q;
+	PAIR = λx y f.f x y;
+	FST = λp.p TRUE;
+	SND = λp.p FALSE;
+`;
+
+// Church numerals apply their first argument n times, which is all the iteration
+// these need. BLOCKS m n counts m down in blocks of n, giving the pair (number of
+// complete blocks, what is left of the current block); it only iterates m times, so
+// DIV and MOD always terminate and need no fixed-point combinator. EXP takes f and x
+// itself so that m^0 is the numeral λf x.f x rather than λf.f.
+const CHURCH_SOURCE = `
+	ZERO = λf x.x;
+	ONE = λf x.f x;
+	SUCC = λn f x.f (n f x);
+	EXP = λm n f x.n m f x;
+	ISZERO = λn.n (λx.FALSE) TRUE;
+	EVEN = λn.n NOT TRUE;
+	BLOCKS = λm n.m (λp.p (λq c.(λd.ISZERO d (PAIR (SUCC q) n) (PAIR q d)) (PRED c))) (PAIR ZERO n);
+	DIV = λm n.FST (BLOCKS m n);
+	MOD = λm n.(λc.c PRED n) (SND (BLOCKS m n));
+`;
+
+// Definitions that only use ZERO, ONE, PRED, ISZERO, SUB and MULT, and so work for any
+// numerals that provide those. FACT recurses through Y, so only strategies that reduce
+// the argument of Y lazily reach its result. It passes the product so far to MULT
+// first, which numerals that iterate over their first argument then use only once.
+export const NUMERIC_SOURCE = `
+	LEQ = λm n.ISZERO (SUB m n);
+	LT = λm n.NOT (LEQ n m);
+	EQ = λm n.AND (LEQ m n) (LEQ n m);
+	FACT = Y (λf n.ISZERO n ONE (MULT (f (PRED n)) n));
+`;
+
+// The I-prefixed operators work on integers, pairs (p, n) of numerals standing for p - n.
+// INT p n builds the normalized pair, where one of the two is zero; every operator
+// returns normalized pairs, so the sign and magnitude can be read off directly.
+const INTEGER_SOURCE = `
+	INT = λp n.PAIR (SUB p n) (SUB n p);
+	ISNEG = λa.NOT (ISZERO (SND a));
+	ABS = λa.PLUS (FST a) (SND a);
+	INEG = λa.a (λp n.PAIR n p);
+	IPLUS = λa b.a (λp n.b (λq m.INT (PLUS p q) (PLUS n m)));
+	ISUB = λa b.a (λp n.b (λq m.INT (PLUS p m) (PLUS n q)));
+	IMULT = λa b.a (λp n.b (λq m.INT (PLUS (MULT p q) (MULT n m)) (PLUS (MULT p m) (MULT n q))));
+	IDIV = λa b.(λq.XOR (ISNEG a) (ISNEG b) (PAIR ZERO q) (PAIR q ZERO)) (DIV (ABS a) (ABS b));
+	IMOD = λa b.(λr.ISNEG a (PAIR ZERO r) (PAIR r ZERO)) (MOD (ABS a) (ABS b));
+	IEXP = λa e.(λm.AND (ISNEG a) (NOT (EVEN (FST e))) (PAIR ZERO m) (PAIR m ZERO)) (EXP (ABS a) (FST e));
+	IFACT = λa.PAIR (FACT (FST a)) ZERO;
+	ILEQ = λa b.a (λp n.b (λq m.LEQ (PLUS p m) (PLUS q n)));
+	ILT = λa b.a (λp n.b (λq m.LT (PLUS p m) (PLUS q n)));
+	IEQ = λa b.a (λp n.b (λq m.EQ (PLUS p m) (PLUS q n)));
+`;
+
+// The R-prefixed operators work on rationals, pairs (n, d) of an integer numerator and
+// a positive Church numeral denominator. Fractions are not reduced to lowest terms,
+// which would need a gcd; ISCALE multiplies an integer by a natural number.
+const RATIONAL_SOURCE = `
+	ISCALE = λi k.i (λp n.PAIR (MULT p k) (MULT n k));
+	RNEG = λa.a (λn d.PAIR (INEG n) d);
+	RPLUS = λa b.a (λn d.b (λm e.PAIR (IPLUS (ISCALE n e) (ISCALE m d)) (MULT d e)));
+	RSUB = λa b.a (λn d.b (λm e.PAIR (ISUB (ISCALE n e) (ISCALE m d)) (MULT d e)));
+	RMULT = λa b.a (λn d.b (λm e.PAIR (IMULT n m) (MULT d e)));
+	RDIV = λa b.a (λn d.b (λm e.PAIR (ISCALE (ISNEG m (INEG n) n) e) (MULT d (ABS m))));
+	RLEQ = λa b.a (λn d.b (λm e.ILEQ (ISCALE n e) (ISCALE m d)));
+	RLT = λa b.a (λn d.b (λm e.ILT (ISCALE n e) (ISCALE m d)));
+	REQ = λa b.a (λn d.b (λm e.IEQ (ISCALE n e) (ISCALE m d)));
+`;
+
+// The definitions that do not depend on how numbers are represented
+export const coreDefinitions: Environment = extendEnvironment(new Map(), parseLambdaProgram(CORE_SOURCE).definitions);
+
+// Standard definitions available in every program, with Church numerals
+export const prelude: Environment = extendEnvironment(
+	new Map([
+		...coreDefinitions,
+		['PLUS', churchAdd],
+		['MULT', churchMultiply],
+		['PRED', churchPredecessor],
+		['SUB', churchSubtract]
+	]),
+	parseLambdaProgram(CHURCH_SOURCE + NUMERIC_SOURCE + INTEGER_SOURCE + RATIONAL_SOURCE).definitions
+);
+
+// Parse a list of definitions and add them to `base`
+export function parseDefinitions(source: string, base: Environment = prelude): Environment {
+	const { definitions, term } = parseLambdaProgram(source);
+	if (term) {
+		throw new Error('Only definitions (NAME = term;) are allowed here');
+	}
+	return extendEnvironment(base, definitions);
+}
+
+// Parse a program: definitions followed by the term to evaluate
+export function parseProgram(source: string, base: Environment = prelude): { term: LambdaNode; definitions: Environment; } {
+	const { definitions, term } = parseLambdaProgram(source);
+	if (!term) {
+		throw new ParseError(definitions.length > 0 ? 'Expected a term to evaluate after the definitions' : 'Empty expression', source.length);
+	}
+	return { term, definitions: extendEnvironment(base, definitions) };
+}
@@ -0,0 +1,338 @@
+import { NUMERIC_SOURCE, coreDefinitions, extendEnvironment, prelude } from './definitions';
+import {
+	Environment,
+	LambdaNode,
+	abstraction,
+	application,
+	churchNumber,
+	extractBoolean,
+	extractNumber,
+	freeVariables,
+	variable
+} from './lambdaCalculus';
+import { parseLambdaProgram } from './lambdaParser';
+
+// Ways of representing natural numbers as lambda terms. Each encoding comes with its
+// own definitions of the arithmetic operators under the usual prelude names (PLUS,
+// MULT, ...), so the same translated expression can be evaluated with any of them.
+
+export type NumeralEncodingName = 'church' | 'scott' | 'parigot' | 'binary';
+
+export interface NumeralEncoding {
+	label: string;
+	description: string;
+	// The numeral for a natural number, in normal form
+	encode(n: number): LambdaNode;
+	// Read a normal form back as a number, or null if it is not a numeral of this encoding
+	decode(term: LambdaNode): number | null;
+	// The core definitions plus the operators these numerals support. Operators that
+	// are missing cannot be used with this encoding.
+	definitions: Environment;
+}
+
+// Scott numerals only know their predecessor, so every operator recurses through Y.
+// EXP passes the power so far to MULT first, which recurses over it and so takes it
+// apart only once.
+const SCOTT_SOURCE = `
+	ZERO = λs z.z;
+	ONE = λs z.s ZERO;
+	SUCC = λn s z.s n;
+	PRED = λn.n I ZERO;
+	ISZERO = λn.n (λp.FALSE) TRUE;
+	PLUS = Y (λr m n.m (λp.SUCC (r p n)) n);
+	MULT = Y (λr m n.m (λp.PLUS n (r p n)) ZERO);
+	SUB = Y (λr m n.n (λq.r (PRED m) q) m);
+	EXP = Y (λr m n.n (λp.MULT (r m p) m) ONE);
+`;
+
+// Parigot numerals carry both their predecessor and the result of iterating over it,
+// so the predecessor is as cheap as for Scott numerals and no recursion is needed.
+// Under normal order the result so far, r, is not yet a numeral; PLUS and MULT iterate
+// over their first argument, so r is passed first, to be unfolded once instead of
+// being copied for every iteration.
+const PARIGOT_SOURCE = `
+	ZERO = λs z.z;
+	SUCC = λn s z.s n (n s z);
+	ONE = SUCC ZERO;
+	PRED = λn.n (λp r.p) ZERO;
+	ISZERO = λn.n (λp r.FALSE) TRUE;
+	PLUS = λm n.m (λp r.SUCC r) n;
+	MULT = λm n.m (λp r.PLUS r n) ZERO;
+	SUB = λm n.n (λp r.PRED r) m;
+	EXP = λm n.n (λp r.MULT r m) ONE;
+`;
+
+// Division by repeated subtraction, for numerals that have no cheaper way to count
+// blocks. Dividing by zero never finishes; it runs into the step limit.
+const DIVISION_SOURCE = `
+	DIV = Y (λr m n.LT m n ZERO (SUCC (r (SUB m n) n)));
+	MOD = Y (λr m n.LT m n m (r (SUB m n) n));
+`;
+
+// Binary numerals are lists of bits, least significant first, built from NIL and CONS.
+// ADDC adds two of them with a carry bit, treating a list that ran out as zeros. It
+// takes both lists apart by case analysis and branches on the bits instead of
+// combining them with AND and OR, so under normal order no unevaluated bit or list
+// is ever copied; the carry passed on is always a literal or the incoming one.
+// Subtraction works the same way with a borrow bit: BORROWS finds whether a - b
+// borrows past the last bit, that is whether a < b, and SUB is zero if so. Every Y
+// copies the whole term it recurses over, so the remaining operators keep that term
+// small: DIVMOD does long division over the bits of m, and EXP iterates MULT with
+// the exponent converted to a Church numeral by CHURCH.
+const BINARY_SOURCE = `
+	NIL = λc n.n;
+	CONS = λh t c n.c h t;
+	FULLADD = λr c x y xs ys.x
+		(y (CONS c (r TRUE xs ys)) (CONS (NOT c) (r c xs ys)))
+		(y (CONS (NOT c) (r c xs ys)) (CONS c (r FALSE xs ys)));
+	ADDC = Y (λr c a b.a
+		(λx xs.b (λy ys.FULLADD r c x y xs ys) (FULLADD r c x FALSE xs NIL))
+		(b (λy ys.FULLADD r c FALSE y NIL ys) (c (CONS TRUE NIL) NIL)));
+	PLUS = ADDC FALSE;
+	MULT = Y (λr a b.a (λx xs.(λp.x (PLUS b p) p) (CONS FALSE (r xs b))) NIL);
+	ZERO = NIL;
+	ONE = CONS TRUE NIL;
+	SUCC = λn.PLUS n ONE;
+	ISZERO = Y (λr a.a (λx xs.x FALSE (r xs)) TRUE);
+	DEC = Y (λr a.a (λx xs.x (CONS FALSE xs) (CONS TRUE (r xs))) NIL);
+	PRED = λn.ISZERO n NIL (DEC n);
+	FULLSUB = λr c x y xs ys.x
+		(y (CONS c (r c xs ys)) (CONS (NOT c) (r FALSE xs ys)))
+		(y (CONS (NOT c) (r TRUE xs ys)) (CONS c (r c xs ys)));
+	SUBC = Y (λr c a b.a
+		(λx xs.b (λy ys.FULLSUB r c x y xs ys) (FULLSUB r c x FALSE xs NIL))
+		(b (λy ys.FULLSUB r c FALSE y NIL ys) NIL));
+	BORROW = λr c x y xs ys.x (y (r c xs ys) (r FALSE xs ys)) (y (r TRUE xs ys) (r c xs ys));
+	BORROWS = Y (λr c a b.a
+		(λx xs.b (λy ys.BORROW r c x y xs ys) (BORROW r c x FALSE xs NIL))
+		(b (λy ys.BORROW r c FALSE y NIL ys) c));
+	SUB = λm n.BORROWS FALSE m n NIL (SUBC FALSE m n);
+	CHURCH = Y (λr a.a (λx xs.(λk f z.x f I (k f (k f z))) (r xs)) (λf z.z));
+	EXP = λm n.CHURCH n (λp.MULT p m) ONE;
+	DIVMOD = Y (λr m n.m
+		(λx xs.r xs n (λq s.(λd.BORROWS FALSE d n
+			(PAIR (CONS FALSE q) d)
+			(PAIR (CONS TRUE q) (SUBC FALSE d n))) (CONS x s)))
+		(PAIR NIL NIL));
+	DIV = λm n.FST (DIVMOD m n);
+	MOD = λm n.SND (DIVMOD m n);
+`;
+
+// The core definitions extended with those in `source`
+function encodingDefinitions(source: string): Environment {
+	return extendEnvironment(coreDefinitions, parseLambdaProgram(source).definitions);
+}
+
+// The body of λa.λb.body as [a, b, body], or null if the term has another shape
+function twoBinders(term: LambdaNode): [string, string, LambdaNode] | null {
+	if (term.type !== 'abstraction' || term.body.type !== 'abstraction' || term.param === term.body.param) {
+		return null;
+	}
+	return [term.param, term.body.param, term.body.body];
+}
+
+// Whether a subterm of a numeral is closed, so it can be decoded on its own
+function closed(term: LambdaNode): boolean {
+	return freeVariables(term).size === 0;
+}
+
+function scottNumeral(n: number): LambdaNode {
+	let numeral = churchNumber(0);
+	for (let i = 0; i < n; i++) {
+		numeral = abstraction('s', abstraction('z', application(variable('s'), numeral)));
+	}
+	return numeral;
+}
+
+// λs z.z is 0 and λs z.s n is n + 1
+function decodeScott(term: LambdaNode): number | null {
+	const parts = twoBinders(term);
+	if (!parts) return null;
+	const [s, z, body] = parts;
+
+	if (body.type === 'variable') return body.name === z ? 0 : null;
+	if (body.type !== 'application' || body.func.type !== 'variable' || body.func.name !== s || !closed(body.arg)) {
+		return null;
+	}
+
+	const predecessor = decodeScott(body.arg);
+	return predecessor === null ? null : predecessor + 1;
+}
+
+// The numeral n + 1 is λs z.s n (n s z); in normal form, n s z unfolds to s (n-1) (...)
+function parigotNumeral(n: number): LambdaNode {
+	let numeral = churchNumber(0);
+	let iterated: LambdaNode = variable('z');
+	for (let i = 0; i < n; i++) {
+		iterated = application(application(variable('s'), numeral), iterated);
+		numeral = abstraction('s', abstraction('z', iterated));
+	}
+	return numeral;
+}
+
+// λs z.z is 0 and λs z.s n r is n + 1, whatever r is
+function decodeParigot(term: LambdaNode): number | null {
+	const parts = twoBinders(term);
+	if (!parts) return null;
+	const [s, z, body] = parts;
+
+	if (body.type === 'variable') return body.name === z ? 0 : null;
+	if (body.type !== 'application' || body.func.type !== 'application') return null;
+
+	const { func, arg: predecessorTerm } = body.func;
+	if (func.type !== 'variable' || func.name !== s || !closed(predecessorTerm)) return null;
+
+	const predecessor = decodeParigot(predecessorTerm);
+	return predecessor === null ? null : predecessor + 1;
+}
+
+// λc n.n is the empty list and λc n.c h t the list with head h and tail t
+function scottList(items: LambdaNode[]): LambdaNode {
+	return items.reduceRight(
+		(list, item) => abstraction('c', abstraction('n', application(application(variable('c'), item), list))),
+		abstraction('c', abstraction('n', variable('n')))
+	);
+}
+
+function decodeScottList(term: LambdaNode): LambdaNode[] | null {
+	const parts = twoBinders(term);
+	if (!parts) return null;
+	const [c, n, body] = parts;
+
+	if (body.type === 'variable') return body.name === n ? [] : null;
+	if (body.type !== 'application' || body.func.type !== 'application') return null;
+
+	const { func, arg: head } = body.func;
+	if (func.type !== 'variable' || func.name !== c || !closed(head) || !closed(body.arg)) return null;
+
+	const tail = decodeScottList(body.arg);
+	return tail === null ? null : [head, ...tail];
+}
+
+// λc n.c a (c b n), the list's own right fold
+function churchList(items: LambdaNode[]): LambdaNode {
+	const body = items.reduceRight<LambdaNode>(
+		(list, item) => application(application(variable('c'), item), list),
+		variable('n')
+	);
+	return abstraction('c', abstraction('n', body));
+}
+
+function decodeChurchList(term: LambdaNode): LambdaNode[] | null {
+	const parts = twoBinders(term);
+	if (!parts) return null;
+	const [c, n, body] = parts;
+
+	const items: LambdaNode[] = [];
+	let rest = body;
+	while (rest.type === 'application' && rest.func.type === 'application') {
+		const { func, arg: item } = rest.func;
+		if (func.type !== 'variable' || func.name !== c || !closed(item)) return null;
+		items.push(item);
+		rest = rest.arg;
+	}
+	return rest.type === 'variable' && rest.name === n ? items : null;
+}
+
+function binaryNumeral(n: number): LambdaNode {
+	const bits: LambdaNode[] = [];
+	for (let rest = n; rest > 0; rest = Math.floor(rest / 2)) {
+		bits.push(abstraction('t', abstraction('f', variable(rest % 2 === 1 ? 't' : 'f'))));
+	}
+	return scottList(bits);
+}
+
+// Leading zeros, which the operators may leave at the end of the list, are allowed
+function decodeBinary(term: LambdaNode): number | null {
+	const bits = decodeScottList(term)?.map(extractBoolean);
+	if (!bits || bits.includes(null)) return null;
+	return bits.reduceRight<number>((value, bit) => 2 * value + (bit ? 1 : 0), 0);
+}
+
+export const numeralEncodings: Record<NumeralEncodingName, NumeralEncoding> = {
+	church: {
+		label: "Church",
+		description: "n is λf x.f (f ... (f x)), applying f n times",
+		encode: churchNumber,
+		decode: extractNumber,
+		definitions: prelude
+	},
+	scott: {
+		label: "Scott",
+		description: "n + 1 is λs z.s n; numbers are taken apart by case analysis and arithmetic recurses through Y",
+		encode: scottNumeral,
+		decode: decodeScott,
+		definitions: encodingDefinitions(SCOTT_SOURCE + NUMERIC_SOURCE + DIVISION_SOURCE)
+	},
+	parigot: {
+		label: "Parigot",
+		description: "n + 1 is λs z.s n (n s z), combining the Scott predecessor with Church iteration; normal forms double in size with every increment, so only small results fit within the limits",
+		encode: parigotNumeral,
+		decode: decodeParigot,
+		definitions: encodingDefinitions(PARIGOT_SOURCE + NUMERIC_SOURCE + DIVISION_SOURCE)
+	},
+	binary: {
+		label: "Binary",
+		description: "A list of bits, least significant first; the terms for ! and large powers soon outgrow the default size limit",
+		encode: binaryNumeral,
+		decode: decodeBinary,
+		definitions: encodingDefinitions(BINARY_SOURCE + NUMERIC_SOURCE)
+	}
+};
+
+export type ListEncodingName = 'church' | 'scott';
+
+export interface ListEncoding {
+	label: string;
+	description: string;
+	// The list of the given elements, in normal form if they are
+	encode(items: LambdaNode[]): LambdaNode;
+	// The elements of a list in normal form, or null if it is not a list of this encoding
+	decode(term: LambdaNode): LambdaNode[] | null;
+	// FOLD and MAP, which the list built-ins translate to
+	definitions: Environment;
+}
+
+// A Church list is its own right fold, so FOLD only has to pass the arguments on
+const CHURCH_LIST_SOURCE = `
+	FOLD = λf z l.l f z;
+	MAP = λf l c n.l (λh t.c (f h) t) n;
+`;
+
+// Scott lists only offer case analysis, so FOLD and MAP recurse through Y
+const SCOTT_LIST_SOURCE = `
+	NIL = λc n.n;
+	CONS = λh t c n.c h t;
+	FOLD = Y (λr f z l.l (λh t.f h (r f z t)) z);
+	MAP = Y (λr f l.l (λh t.CONS (f h) (r f t)) NIL);
+`;
+
+export const listEncodings: Record<ListEncodingName, ListEncoding> = {
+	church: {
+		label: "Church",
+		description: "[a, b] is λc n.c a (c b n), the list's right fold; folding is a single application",
+		encode: churchList,
+		decode: decodeChurchList,
+		definitions: encodingDefinitions(CHURCH_LIST_SOURCE)
+	},
+	scott: {
+		label: "Scott",
+		description: "[a, b] is λc n.c a [b], a head and a tail taken apart by case analysis; folding recurses through Y",
+		encode: scottList,
+		decode: decodeScottList,
+		definitions: encodingDefinitions(SCOTT_LIST_SOURCE)
+	}
+};
+
+const mathDefinitionsCache = new Map<string, Environment>();
+
+// The definitions math expressions are evaluated with: those of the numerals and the lists
+export function mathDefinitions(numerals: NumeralEncodingName, lists: ListEncodingName): Environment {
+	const key = `${numerals} ${lists}`;
+	let definitions = mathDefinitionsCache.get(key);
+	if (!definitions) {
+		definitions = new Map([...numeralEncodings[numerals].definitions, ...listEncodings[lists].definitions]);
+		mathDefinitionsCache.set(key, definitions);
+	}
+	return definitions;
+}
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ReductionStep, Termination } from '../lambdaCalculus';
+import { MathValue } from '../mathParser';
+import { MathEvaluationOptions } from '../mathToLambda';
+import type { EvaluationRequest, EvaluationResponse } from '../workers/evaluation.worker';
+
+interface EvaluationCallbacks {
+	// The value of a math expression computed by the compiled term, before the trace
+	onCompiled?: (value: MathValue | null) => void;
+	// The result read from the trace
+	onDone?: (result: MathValue | null) => void;
+	onError?: (message: string) => void;
+}
+
+// Run evaluations in a Web Worker. Steps accumulate in `steps` as the worker streams
+// them in; starting a new evaluation cancels the one still running. The previous steps
+// stay in place until the new evaluation delivers its first batch, so live preview
+// doesn't flicker and keeps the last good result while the input fails to parse.
+// A trace can also be resumed from a step taken by hand, keeping the steps before it.
+export function useEvaluationWorker() {
+	const [steps, setSteps] = useState<ReductionStep[]>([]);
+	const [isEvaluating, setIsEvaluating] = useState<boolean>(false);
+	// Why the last finished evaluation stopped
+	const [termination, setTermination] = useState<Termination | null>(null);
+
+	const workerRef = useRef<Worker | null>(null);
+	const busyRef = useRef<boolean>(false);
+	const requestIdRef = useRef<number>(0);
+	const callbacksRef = useRef<EvaluationCallbacks>({});
+	const receivedRef = useRef<boolean>(false);
+	// Steps that a resumed evaluation continues, ending with the term it starts from
+	const keptRef = useRef<ReductionStep[] | null>(null);
+
+	// Stop the running evaluation, if any. A busy worker cannot be interrupted, so it
+	// is terminated and a fresh one is created on the next start.
+	const cancel = useCallback(() => {
+		requestIdRef.current++;
+		if (busyRef.current && workerRef.current) {
+			workerRef.current.terminate();
+			workerRef.current = null;
+		}
+		busyRef.current = false;
+		setIsEvaluating(false);
+	}, []);
+
+	// Cancel and forget the current steps
+	const clear = useCallback(() => {
+		cancel();
+		setSteps([]);
+		setTermination(null);
+	}, [cancel]);
+
+	const handleMessage = useCallback((event: MessageEvent<EvaluationResponse>) => {
+		const response = event.data;
+
+		// Ignore messages from evaluations that have since been cancelled
+		if (response.id !== requestIdRef.current) return;
+
+		switch (response.type) {
+			case 'compiled':
+				callbacksRef.current.onCompiled?.(response.value);
+				break;
+			case 'steps':
+				if (receivedRef.current) {
+					setSteps(previous => previous.concat(response.steps));
+				} else {
+					// A resumed evaluation starts with the last kept term, which is already there
+					const kept = keptRef.current;
+					receivedRef.current = true;
+					setSteps(kept ? kept.concat(response.steps.slice(1)) : response.steps);
+					setTermination(null);
+				}
+				break;
+			case 'done': {
+				// Step indices of a resumed evaluation count from the last kept step
+				const offset = keptRef.current ? keptRef.current.length - 1 : 0;
+				const { cycleStart } = response.termination;
+				busyRef.current = false;
+				setIsEvaluating(false);
+				setTermination(cycleStart === undefined
+					? response.termination
+					: { ...response.termination, cycleStart: cycleStart + offset });
+				callbacksRef.current.onDone?.(response.result);
+				break;
+			}
+			case 'error':
+				busyRef.current = false;
+				setIsEvaluating(false);
+				callbacksRef.current.onError?.(response.message);
+				break;
+		}
+	}, []);
+
+	// Send a request to the worker, creating it if needed
+	const send = useCallback((request: Omit<EvaluationRequest, 'id'>, callbacks: EvaluationCallbacks) => {
+		if (!workerRef.current) {
+			const worker = new Worker(new URL('../workers/evaluation.worker.ts', import.meta.url));
+			worker.onmessage = handleMessage;
+			worker.onerror = (event) => {
+				// Uncaught failures inside the worker, e.g. running out of stack
+				event.preventDefault();
+				busyRef.current = false;
+				setIsEvaluating(false);
+				worker.terminate();
+				if (workerRef.current === worker) workerRef.current = null;
+				callbacksRef.current.onError?.(event.message || 'Evaluation failed');
+			};
+			workerRef.current = worker;
+		}
+
+		callbacksRef.current = callbacks;
+		busyRef.current = true;
+		receivedRef.current = false;
+		setIsEvaluating(true);
+		const message: EvaluationRequest = { ...request, id: requestIdRef.current };
+		workerRef.current.postMessage(message);
+	}, [handleMessage]);
+
+	// Evaluate an expression, replacing the current steps with the streamed ones
+	const start = useCallback((
+		mode: EvaluationRequest['mode'],
+		expression: string,
+		options: MathEvaluationOptions,
+		callbacks: EvaluationCallbacks = {}
+	) => {
+		cancel();
+		keptRef.current = null;
+		send({ mode, expression, options }, callbacks);
+	}, [cancel, send]);
+
+	// Replace the steps after `index` by `step` and carry on reducing from its term
+	const resume = useCallback((
+		index: number,
+		step: ReductionStep,
+		mode: EvaluationRequest['mode'],
+		expression: string,
+		options: MathEvaluationOptions,
+		callbacks: EvaluationCallbacks = {}
+	) => {
+		cancel();
+		const kept = steps.slice(0, index + 1).concat(step);
+		keptRef.current = kept;
+		setSteps(kept);
+		setTermination(null);
+		send({ mode, expression, options, term: step.term }, callbacks);
+	}, [steps, cancel, send]);
+
+	// Shut the worker down with the component
+	useEffect(() => {
+		return () => {
+			workerRef.current?.terminate();
+			workerRef.current = null;
+		};
+	}, []);
+
+	return { steps, isEvaluating, termination, start, resume, cancel, clear };
+}
@@ -1,3 +1,7 @@
+import { computeCompiled, readChurchNumeral } from './compileToJs';
+import { DeBruijnNode, alphaEquivalent, toDeBruijn } from './deBruijn';
+import { clearTermStore, internAbstraction, internApplication, internVariable, termId } from './termStore';
+
 // Lambda calculus node types
 export type LambdaNode =
 	| Variable
@@ -22,22 +26,49 @@ export interface Application {
 }
 
 // Helper functions to create lambda terms
-export const variable = (name: string): Variable => ({
-	type: 'variable',
-	name
-});
-
-export const abstraction = (param: string, body: LambdaNode): Abstraction => ({
-	type: 'abstraction',
-	param,
-	body
-});
-
-export const application = (func: LambdaNode, arg: LambdaNode): Application => ({
-	type: 'application',
-	func,
-	arg
-});
+// Terms are hash-consed: building the same structure twice returns the same shared node
+export const variable = (name: string): Variable => internVariable(name);
+
+export const abstraction = (param: string, body: LambdaNode): Abstraction => internAbstraction(param, body);
+
+export const application = (func: LambdaNode, arg: LambdaNode): Application => internApplication(func, arg);
+
+// Location of a subterm: the fields followed from the root to reach it
+export type TermPath = ('func' | 'arg' | 'body')[];
+
+// Look up the subterm at `path`, or undefined if the path leaves the term
+export function subtermAt(term: LambdaNode, path: TermPath): LambdaNode | undefined {
+	let current: LambdaNode | undefined = term;
+	for (const field of path) {
+		if (!current) return undefined;
+		if (field === 'body') {
+			current = current.type === 'abstraction' ? current.body : undefined;
+		} else {
+			current = current.type === 'application' ? current[field] : undefined;
+		}
+	}
+	return current;
+}
+
+// Paths of the free occurrences of `name` in `term`
+export function occurrencePaths(term: LambdaNode, name: string, path: TermPath = []): TermPath[] {
+	switch (term.type) {
+		case 'variable':
+			return term.name === name ? [path] : [];
+
+		case 'abstraction':
+			return term.param === name ? [] : occurrencePaths(term.body, name, [...path, 'body']);
+
+		case 'application':
+			return [
+				...occurrencePaths(term.func, name, [...path, 'func']),
+				...occurrencePaths(term.arg, name, [...path, 'arg'])
+			];
+
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+}
 
 // Church encodings for numbers
 export function churchNumber(n: number): LambdaNode {
@@ -49,6 +80,28 @@ export function churchNumber(n: number): LambdaNode {
 	);
 }
 
+// A signed integer as the normalized pair of Church numerals (positive part, negative part)
+export function churchInteger(n: number): LambdaNode {
+	// λf.f p n
+	return abstraction('f',
+		application(
+			application(variable('f'), churchNumber(Math.max(n, 0))),
+			churchNumber(Math.max(-n, 0))
+		)
+	);
+}
+
+// A fraction as the pair (integer numerator, Church numeral denominator)
+export function churchRational(numerator: number, denominator: number): LambdaNode {
+	// λf.f n d
+	return abstraction('f',
+		application(
+			application(variable('f'), churchInteger(numerator)),
+			churchNumber(denominator)
+		)
+	);
+}
+
 // Helper to create f^n(x)
 function applyNTimes(funcName: string, argName: string, n: number): LambdaNode {
 	let result: LambdaNode = variable(argName);
@@ -88,10 +141,11 @@ export const churchMultiply = abstraction('m',
 	)
 );
 
-export const churchSubtract = abstraction('m',
-	abstraction('n',
-		abstraction('f',
-			abstraction('x',
+// Predecessor, with PRED 0 = 0: λn f x.n (λg h.h (g f)) (λu.x) (λu.u)
+export const churchPredecessor = abstraction('n',
+	abstraction('f',
+		abstraction('x',
+			application(
 				application(
 					application(
 						variable('n'),
@@ -104,37 +158,95 @@ export const churchSubtract = abstraction('m',
 							)
 						)
 					),
-					application(
-						abstraction('u', variable('x')),
-						abstraction('u', variable('u'))
-					)
-				)
+					abstraction('u', variable('x'))
+				),
+				abstraction('u', variable('u'))
 			)
 		)
 	)
 );
 
+// Truncated subtraction (monus): m - n applies PRED to m, n times. Since PRED 0 = 0,
+// results that would be negative are 0.
+export const churchSubtract = abstraction('m',
+	abstraction('n',
+		application(
+			application(variable('n'), churchPredecessor),
+			variable('m')
+		)
+	)
+);
+
+// Free variables per node; terms are immutable and shared, so each is computed once
+const freeVariablesCache = new WeakMap<LambdaNode, ReadonlySet<string>>();
+
+// Collect the names of all variables that occur free in a term
+export function freeVariables(term: LambdaNode): ReadonlySet<string> {
+	const cached = freeVariablesCache.get(term);
+	if (cached) return cached;
+
+	let free: Set<string>;
+	switch (term.type) {
+		case 'variable':
+			free = new Set([term.name]);
+			break;
+
+		case 'abstraction':
+			free = new Set(freeVariables(term.body));
+			free.delete(term.param);
+			break;
+
+		case 'application':
+			free = new Set(freeVariables(term.func));
+			freeVariables(term.arg).forEach(name => free.add(name));
+			break;
+
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+
+	freeVariablesCache.set(term, free);
+	return free;
+}
+
+// Pick a variant of `base` (x, x', x'', ...) that does not clash with any name in `avoid`
+export function freshName(base: string, avoid: ReadonlySet<string>): string {
+	let candidate = `${base}'`;
+	while (avoid.has(candidate)) {
+		candidate += "'";
+	}
+	return candidate;
+}
+
+// Alpha-convert an abstraction so that its parameter is called `newName`
+export function alphaRename(term: Abstraction, newName: string): Abstraction {
+	return abstraction(newName, substitute(term.body, term.param, variable(newName)));
+}
+
 // Memoization cache for substitution operations
 // This improves performance for repeated substitutions
 const substitutionCache = new Map<string, LambdaNode>();
 
-// Generate a cache key for substitution operations
+// Generate a cache key for substitution operations from the hash-consed term ids
 function getSubstitutionCacheKey(term: LambdaNode, varName: string, replacement: LambdaNode): string {
-	return `${JSON.stringify(term)}_${varName}_${JSON.stringify(replacement)}`;
+	return `${termId(term)}_${varName}_${termId(replacement)}`;
 }
 
 // Clear the substitution cache (useful when starting a new evaluation)
+// along with the shared term table, so terms from earlier evaluations can be freed
 export function clearSubstitutionCache(): void {
 	substitutionCache.clear();
+	clearTermStore();
 }
 
-// Optimized substitute function with memoization
+// Capture-avoiding substitution term[varName := replacement] with memoization
 export function substitute(term: LambdaNode, varName: string, replacement: LambdaNode): LambdaNode {
 	const cacheKey = getSubstitutionCacheKey(term, varName, replacement);
 
 	// Check if result is already in cache
-	if (substitutionCache.has(cacheKey)) {
-		return substitutionCache.get(cacheKey)!;
+	const cachedResult = substitutionCache.get(cacheKey);
+	if (cachedResult) {
+		return cachedResult;
 	}
 
 	let result: LambdaNode;
@@ -150,23 +262,28 @@ export function substitute(term: LambdaNode, varName: string, replacement: Lambd
 			// then we don't substitute inside the body
 			if (term.param === varName) {
 				result = term;
+			} else if (needsRenaming(term, varName, freeVariables(replacement))) {
+				// The parameter would capture a free variable of the replacement,
+				// so rename it before substituting into the body
+				const renamed = renameParam(term, varName, replacement);
+				result = abstraction(renamed.param, substitute(renamed.body, varName, replacement));
+			} else if (!freeVariables(term.body).has(varName)) {
+				// Nothing to replace, keep sharing the original body
+				result = term;
 			} else {
 				// Otherwise, substitute in the body
-				result = {
-					type: 'abstraction',
-					param: term.param,
-					body: substitute(term.body, varName, replacement)
-				};
+				result = abstraction(term.param, substitute(term.body, varName, replacement));
 			}
 			break;
 
 		case 'application':
-			// Substitute in both the function and argument parts
-			result = {
-				type: 'application',
-				func: substitute(term.func, varName, replacement),
-				arg: substitute(term.arg, varName, replacement)
-			};
+			// Substitute in both the function and argument parts, sharing untouched ones
+			result = freeVariables(term).has(varName)
+				? application(
+					substitute(term.func, varName, replacement),
+					substitute(term.arg, varName, replacement)
+				)
+				: term;
 			break;
 
 		default:
@@ -178,61 +295,455 @@ export function substitute(term: LambdaNode, varName: string, replacement: Lambd
 	return result;
 }
 
+// An abstraction must be renamed before substituting varName inside it when its
+// parameter is free in the replacement and varName actually occurs in its body
+function needsRenaming(term: Abstraction, varName: string, replacementFree: ReadonlySet<string>): boolean {
+	return replacementFree.has(term.param) && freeVariables(term.body).has(varName);
+}
+
+// Rename the parameter of `term` to a name free in neither its body nor the replacement
+function renameParam(term: Abstraction, varName: string, replacement: LambdaNode): Abstraction {
+	const avoid = new Set(freeVariables(term.body));
+	freeVariables(replacement).forEach(name => avoid.add(name));
+	avoid.add(varName);
+	return alphaRename(term, freshName(term.param, avoid));
+}
+
+// A binder renamed by alpha-conversion; `path` locates the abstraction
+export interface BinderRename {
+	from: string;
+	to: string;
+	path: TermPath;
+}
+
+// Rename every binder in `term` that would capture a free variable of `replacement`
+// when substituting for varName. Returns the original term if nothing needs renaming,
+// so the caller can detect whether an alpha-conversion step took place.
+// Each rename is recorded in `renamed`, with paths relative to `term`.
+export function avoidCapture(
+	term: LambdaNode,
+	varName: string,
+	replacement: LambdaNode,
+	renamed: BinderRename[] = []
+): LambdaNode {
+	const replacementFree = freeVariables(replacement);
+
+	function rename(node: LambdaNode, path: TermPath): LambdaNode {
+		switch (node.type) {
+			case 'variable':
+				return node;
+
+			case 'abstraction': {
+				// Occurrences below a shadowing binder are never substituted
+				if (node.param === varName || !freeVariables(node.body).has(varName)) {
+					return node;
+				}
+
+				let current: Abstraction = node;
+				if (replacementFree.has(node.param)) {
+					current = renameParam(node, varName, replacement);
+					renamed.push({ from: node.param, to: current.param, path });
+				}
+				const body = rename(current.body, [...path, 'body']);
+				return current === node && body === node.body ? node : abstraction(current.param, body);
+			}
+
+			case 'application': {
+				const func = rename(node.func, [...path, 'func']);
+				const arg = rename(node.arg, [...path, 'arg']);
+				return func === node.func && arg === node.arg ? node : application(func, arg);
+			}
+
+			default:
+				throw new Error(`Unknown term type: ${(node as any).type}`);
+		}
+	}
+
+	return rename(term, []);
+}
+
+// The kind of rewrite performed by a single reduction step:
+// alpha renames bound variables, beta contracts (λx.M) N, eta contracts λx.M x,
+// etaExpansion turns M into λx.M x (only when asked for, see etaExpand), delta
+// unfolds a named definition, combinator rewrites S, K, I, B or C applied to enough
+// arguments (see combinators.ts)
+export type ReductionRule = 'alpha' | 'beta' | 'eta' | 'etaExpansion' | 'delta' | 'combinator';
+
+// What a reduction step did. Paths into the term before the step, except where noted.
+export interface ReductionDetails {
+	rule: ReductionRule;
+	// Location of the rewritten subterm
+	redexPath: TermPath;
+	// Parameter of the contracted abstraction, or of the one added by an η-expansion
+	boundVariable?: string;
+	// Argument substituted for the bound variable
+	argument?: LambdaNode;
+	// Locations in the resulting term where copies of the argument (or, for delta,
+	// the unfolded definition) were placed
+	substitutedPaths: TermPath[];
+	// Binders renamed by an alpha step
+	renamed?: BinderRename[];
+	// Name unfolded by a delta step
+	definition?: string;
+	// Combinator rewritten by a combinator step
+	combinator?: string;
+}
+
+// One entry of an evaluation trace
+export interface ReductionStep {
+	term: LambdaNode;
+	// How this term was obtained from the previous one; null for the starting term
+	reduction: ReductionDetails | null;
+}
+
+// Order in which redexes are chosen
+export type ReductionStrategy = 'normal' | 'applicative' | 'callByName' | 'callByValue' | 'head';
+
+// Labels and short descriptions of the strategies, for the strategy picker
+export const reductionStrategies: Record<ReductionStrategy, { label: string; description: string; }> = {
+	normal: {
+		label: 'Normal order',
+		description: 'Leftmost-outermost redex first, also under λ. Finds the normal form whenever one exists.'
+	},
+	applicative: {
+		label: 'Applicative order',
+		description: 'Leftmost-innermost redex first, also under λ. Arguments are normalized before they are passed.'
+	},
+	callByName: {
+		label: 'Call by name',
+		description: 'Leftmost-outermost, but never under λ and never inside arguments. Stops at weak head normal form.'
+	},
+	callByValue: {
+		label: 'Call by value',
+		description: 'Function and argument are reduced before the call, but never under λ. Stops at weak normal form.'
+	},
+	head: {
+		label: 'Head reduction',
+		description: 'Only the head redex is contracted, also under λ. Stops at head normal form.'
+	}
+};
+
+// How each strategy traverses a term
+const strategyRules: Record<ReductionStrategy, { underLambda: boolean; reduceArgs: boolean; innermost: boolean; }> = {
+	normal: { underLambda: true, reduceArgs: true, innermost: false },
+	applicative: { underLambda: true, reduceArgs: true, innermost: true },
+	callByName: { underLambda: false, reduceArgs: false, innermost: false },
+	callByValue: { underLambda: false, reduceArgs: true, innermost: true },
+	head: { underLambda: true, reduceArgs: false, innermost: false }
+};
+
+// Why an evaluation stopped
+export type TerminationStatus = 'normalForm' | 'stepLimit' | 'sizeLimit' | 'cycle' | 'depthLimit';
+
+// Labels and explanations of the termination statuses, for the result banner
+export const terminationStatuses: Record<TerminationStatus, { label: string; description: string; }> = {
+	normalForm: {
+		label: 'Normal form',
+		description: 'No redex remains for the selected strategy.'
+	},
+	stepLimit: {
+		label: 'Step limit reached',
+		description: 'Evaluation was stopped after the maximum number of steps. The last term still contains a redex.'
+	},
+	sizeLimit: {
+		label: 'Size limit reached',
+		description: 'The term grew beyond the maximum size, which usually means the reduction diverges.'
+	},
+	cycle: {
+		label: 'Cycle detected',
+		description: 'The reduction returned to an earlier term (up to renaming of bound variables), so it will never finish.'
+	},
+	depthLimit: {
+		label: 'Depth limit reached',
+		description: 'The term is nested too deeply to search for further redexes. It may not be fully reduced.'
+	}
+};
+
+// How an evaluation ended
+export interface Termination {
+	status: TerminationStatus;
+	// For cycles: index of the earlier step that the last term repeats
+	cycleStart?: number;
+}
+
+export interface EvaluationOutcome extends Termination {
+	result: LambdaNode;
+}
+
+// Bounds on a single evaluation
+export interface EvaluationLimits {
+	// Maximum number of reduction steps
+	maxSteps: number;
+	// Maximum number of nodes in any intermediate term
+	maxSize: number;
+	// Maximum nesting depth searched for a redex
+	maxDepth: number;
+}
+
+export const defaultLimits: EvaluationLimits = {
+	maxSteps: 5000,
+	maxSize: 20000,
+	maxDepth: 1000
+};
+
+// A term bound to a name, e.g. TRUE = λt f.t
+export interface Definition {
+	name: string;
+	term: LambdaNode;
+}
+
+// Named terms in scope during evaluation. A free variable with one of these names
+// is unfolded to its definition (a delta step) when the strategy reaches it.
+export type Environment = ReadonlyMap<string, LambdaNode>;
+
+const noDefinitions: Environment = new Map();
+
+export interface EvaluationOptions extends Partial<EvaluationLimits> {
+	strategy?: ReductionStrategy;
+	definitions?: Environment;
+	// Also contract η-redexes λx.M x (x not free in M) to M, wherever the strategy
+	// reduces under λ
+	eta?: boolean;
+}
+
+// Result of looking for one reduction step
+interface ReduceResult {
+	reduced: LambdaNode;
+	changed: boolean;
+	step?: ReductionDetails;
+	// Part of the term was beyond the depth limit and was not searched
+	depthExceeded?: boolean;
+}
+
+// Terms known to contain no redex, per environment, strategy and whether η-redexes
+// count. Terms are immutable and shared, so once a subterm is found irreducible it
+// never needs to be searched again.
+const irreducibleTerms = new WeakMap<Environment, Map<string, WeakSet<LambdaNode>>>();
+
+// Whether λparam.body is an η-redex: body applies a function not mentioning param to it
+function isEtaRedex(node: Abstraction): node is Abstraction & { body: Application; } {
+	const { param, body } = node;
+	return body.type === 'application'
+		&& body.arg.type === 'variable'
+		&& body.arg.name === param
+		&& !freeVariables(body.func).has(param);
+}
+
 // Optimized beta reduce function that limits reduction depth
-// This prevents excessive computation for very complex expressions
+// This prevents excessive computation for very complex expressions.
+// The redex is chosen according to `strategy`; when it would capture a free variable,
+// the step performed is the alpha-conversion of the redex's function instead of the
+// beta-reduction itself. Free variables named in `definitions` count as redexes too,
+// and so do η-redexes if `eta` is set, in the same order as β-redexes: an outermost
+// strategy contracts λx.M x before looking inside M, an innermost one after.
 export function betaReduce(
 	term: LambdaNode,
-	maxDepth: number = 1000
-): { reduced: LambdaNode; changed: boolean; } {
+	strategy: ReductionStrategy = 'normal',
+	maxDepth: number = defaultLimits.maxDepth,
+	definitions: Environment = noDefinitions,
+	eta: boolean = false
+): ReduceResult {
+	const { underLambda, reduceArgs, innermost } = strategyRules[strategy];
+
 	// Track current depth to prevent stack overflow
 	let currentDepth = 0;
 
-	function reduceTerm(node: LambdaNode, depth: number): { reduced: LambdaNode; changed: boolean; } {
+	// Set once the depth limit cut the search short; results are then incomplete
+	// and must not be remembered as irreducible
+	let truncated = false;
+
+	// Set once a defined name was found shadowed by a binder. Whether such a
+	// variable can be unfolded depends on its context, not just on the subterm,
+	// so nothing more is remembered as irreducible.
+	let shadowed = false;
+
+	let byStrategy = irreducibleTerms.get(definitions);
+	if (!byStrategy) {
+		byStrategy = new Map();
+		irreducibleTerms.set(definitions, byStrategy);
+	}
+	const cacheKey = eta ? `${strategy}+eta` : strategy;
+	let irreducible = byStrategy.get(cacheKey);
+	if (!irreducible) {
+		irreducible = new WeakSet();
+		byStrategy.set(cacheKey, irreducible);
+	}
+	const knownIrreducible = irreducible;
+
+	// Path from the root to the node being visited, shared across the traversal
+	// and copied only when a redex is found
+	const path: TermPath = [];
+
+	// Parameters of the abstractions enclosing the node being visited
+	const binders: string[] = [];
+
+	// Visit a child of the current node
+	function reduceChild(child: LambdaNode, depth: number, field: TermPath[number]): ReduceResult {
+		path.push(field);
+		const result = reduceTerm(child, depth);
+		path.pop();
+		return result;
+	}
+
+	// Replace a defined name by its definition
+	function unfold(name: string, definition: LambdaNode): ReduceResult {
+		return {
+			reduced: definition,
+			changed: true,
+			step: {
+				rule: 'delta',
+				redexPath: [...path],
+				definition: name,
+				substitutedPaths: [[...path]]
+			}
+		};
+	}
+
+	// Contract the η-redex λx.M x at the current path to M
+	function contractEta(redex: Abstraction & { body: Application; }): ReduceResult {
+		return {
+			reduced: redex.body.func,
+			changed: true,
+			step: {
+				rule: 'eta',
+				redexPath: [...path],
+				boundVariable: redex.param,
+				substitutedPaths: [[...path]]
+			}
+		};
+	}
+
+	// Contract the redex (λx.M) N at the current path, renaming binders in M first if needed
+	function contract(redex: Application & { func: Abstraction; }): ReduceResult {
+		const { param, body } = redex.func;
+
+		// Rename binders first if the substitution would capture free variables of the argument
+		const renamed: BinderRename[] = [];
+		const safeBody = avoidCapture(body, param, redex.arg, renamed);
+		if (safeBody !== body) {
+			const bodyPath: TermPath = [...path, 'func', 'body'];
+			return {
+				reduced: application(abstraction(param, safeBody), redex.arg),
+				changed: true,
+				step: {
+					rule: 'alpha',
+					redexPath: [...path, 'func'],
+					boundVariable: param,
+					substitutedPaths: [],
+					renamed: renamed.map(r => ({ ...r, path: [...bodyPath, ...r.path] }))
+				}
+			};
+		}
+
+		// The body takes the place of the redex, so occurrence paths carry over unchanged
+		const substituted = substitute(body, param, redex.arg);
+		return {
+			reduced: substituted,
+			changed: true,
+			step: {
+				rule: 'beta',
+				redexPath: [...path],
+				boundVariable: param,
+				argument: redex.arg,
+				substitutedPaths: occurrencePaths(body, param).map(p => [...path, ...p])
+			}
+		};
+	}
+
+	function reduceTerm(node: LambdaNode, depth: number): ReduceResult {
 		// Safety check to prevent excessive recursion
 		if (depth > maxDepth) {
-			console.warn('Maximum beta reduction depth reached, stopping reduction');
+			truncated = true;
 			return { reduced: node, changed: false };
 		}
 
+		if (knownIrreducible.has(node)) {
+			return { reduced: node, changed: false };
+		}
+
+		const result = reduceNode(node, depth);
+		if (!result.changed && !truncated && !shadowed) {
+			knownIrreducible.add(node);
+		}
+		return result;
+	}
+
+	function reduceNode(node: LambdaNode, depth: number): ReduceResult {
 		switch (node.type) {
-			case 'variable':
-				// Variables can't be reduced
-				return { reduced: node, changed: false };
+			case 'variable': {
+				// Only free variables with a definition can be reduced
+				const definition = definitions.get(node.name);
+				if (definition === undefined) {
+					return { reduced: node, changed: false };
+				}
+				if (binders.includes(node.name)) {
+					shadowed = true;
+					return { reduced: node, changed: false };
+				}
+				return unfold(node.name, definition);
+			}
 
 			case 'abstraction':
+				// Weak strategies treat every abstraction as a value
+				if (!underLambda) {
+					return { reduced: node, changed: false };
+				}
+
+				const isEta = eta && isEtaRedex(node);
+				if (isEta && !innermost) {
+					return contractEta(node);
+				}
+
 				// Try to reduce the body
-				const bodyResult = reduceTerm(node.body, depth + 1);
+				binders.push(node.param);
+				const bodyResult = reduceChild(node.body, depth + 1, 'body');
+				binders.pop();
 				if (bodyResult.changed) {
 					return {
-						reduced: { ...node, body: bodyResult.reduced },
-						changed: true
+						reduced: abstraction(node.param, bodyResult.reduced),
+						changed: true,
+						step: bodyResult.step
 					};
 				}
+
+				if (isEta) {
+					return contractEta(node);
+				}
 				return { reduced: node, changed: false };
 
 			case 'application':
-				// Case 1: If the function is an abstraction, perform the substitution (beta reduction)
-				if (node.func.type === 'abstraction') {
-					const substituted = substitute(node.func.body, node.func.param, node.arg);
-					return { reduced: substituted, changed: true };
+				const isRedex = node.func.type === 'abstraction';
+
+				// Outermost strategies contract a redex before looking inside it
+				if (isRedex && !innermost) {
+					return contract(node as Application & { func: Abstraction; });
 				}
 
-				// Case 2: Try to reduce the function part
-				const funcResult = reduceTerm(node.func, depth + 1);
+				// Try to reduce the function part
+				const funcResult = reduceChild(node.func, depth + 1, 'func');
 				if (funcResult.changed) {
 					return {
-						reduced: { ...node, func: funcResult.reduced },
-						changed: true
+						reduced: application(funcResult.reduced, node.arg),
+						changed: true,
+						step: funcResult.step
 					};
 				}
 
-				// Case 3: Try to reduce the argument part
-				const argResult = reduceTerm(node.arg, depth + 1);
-				if (argResult.changed) {
-					return {
-						reduced: { ...node, arg: argResult.reduced },
-						changed: true
-					};
+				// Try to reduce the argument part
+				if (reduceArgs) {
+					const argResult = reduceChild(node.arg, depth + 1, 'arg');
+					if (argResult.changed) {
+						return {
+							reduced: application(node.func, argResult.reduced),
+							changed: true,
+							step: argResult.step
+						};
+					}
+				}
+
+				// Innermost strategies contract a redex once its parts are reduced
+				if (isRedex) {
+					return contract(node as Application & { func: Abstraction; });
 				}
 
 				// Nothing to reduce
@@ -243,141 +754,249 @@ export function betaReduce(
 		}
 	}
 
-	return reduceTerm(term, currentDepth);
+	const result = reduceTerm(term, currentDepth);
+	return truncated ? { ...result, depthExceeded: true } : result;
 }
 
-// Optimized evaluate function with performance improvements
-export function evaluate(term: LambdaNode): { result: LambdaNode; steps: LambdaNode[]; } {
+// Number of nodes in a term
+const sizeCache = new WeakMap<LambdaNode, number>();
+
+export function termSize(term: LambdaNode): number {
+	const cached = sizeCache.get(term);
+	if (cached !== undefined) return cached;
+
+	let size: number;
+	switch (term.type) {
+		case 'variable':
+			size = 1;
+			break;
+		case 'abstraction':
+			size = 1 + termSize(term.body);
+			break;
+		case 'application':
+			size = 1 + termSize(term.func) + termSize(term.arg);
+			break;
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+
+	sizeCache.set(term, size);
+	return size;
+}
+
+// Evaluate a term step by step, yielding each step as soon as it is produced (starting
+// with the unreduced term) and returning the final term with the reason evaluation
+// stopped. Lets callers show or send steps incrementally and stop early by simply not
+// resuming the generator.
+export function* evaluateSteps(
+	term: LambdaNode,
+	options: EvaluationOptions = {}
+): Generator<ReductionStep, EvaluationOutcome, void> {
+	const {
+		strategy = 'normal',
+		maxSteps = defaultLimits.maxSteps,
+		maxSize = defaultLimits.maxSize,
+		maxDepth = defaultLimits.maxDepth,
+		definitions = noDefinitions,
+		eta = false
+	} = options;
+
 	// Clear the substitution cache at the start of evaluation
 	clearSubstitutionCache();
 
-	const steps: LambdaNode[] = [term];
+	yield { term, reduction: null };
 	let current = term;
 
-	// Limit the maximum number of steps to prevent infinite loops
-	const MAX_STEPS = 1000;
+	if (termSize(current) > maxSize) {
+		return { result: current, status: 'sizeLimit' };
+	}
+
+	// Step indices of the terms seen so far, by size, to notice when the reduction loops.
+	// Alpha-equivalent terms have equal sizes, so only same-size terms need comparing.
+	const terms: LambdaNode[] = [current];
+	const seenBySize = new Map<number, number[]>([[termSize(current), [0]]]);
 	let stepCount = 0;
 
-	while (stepCount < MAX_STEPS) {
-		const { reduced, changed } = betaReduce(current);
+	while (stepCount < maxSteps) {
+		const { reduced, changed, step, depthExceeded } = betaReduce(current, strategy, maxDepth, definitions, eta);
 
-		if (!changed) {
-			// No more reductions possible
-			return { result: current, steps };
+		if (!changed || !step) {
+			// No more reductions possible, unless some of the term was out of reach
+			return { result: current, status: depthExceeded ? 'depthLimit' : 'normalForm' };
 		}
 
 		current = reduced;
-		steps.push(current);
+		yield { term: current, reduction: step };
 		stepCount++;
+
+		if (termSize(current) > maxSize) {
+			return { result: current, status: 'sizeLimit' };
+		}
+
+		terms.push(current);
+
+		// Renaming bound variables always yields an alpha-equivalent term; that is not a loop
+		if (step.rule === 'alpha') continue;
+
+		const sameSize = seenBySize.get(termSize(current));
+		const earlier = sameSize?.find(index => alphaEquivalent(terms[index], current));
+		if (earlier !== undefined) {
+			return { result: current, status: 'cycle', cycleStart: earlier };
+		}
+		if (sameSize) {
+			sameSize.push(stepCount);
+		} else {
+			seenBySize.set(termSize(current), [stepCount]);
+		}
+	}
+
+	return { result: current, status: 'stepLimit' };
+}
+
+// η-expand the subterm at `path`: M becomes λx.M x, with x not free in M. This is
+// never done by a strategy, since it could go on forever; it is offered as an explicit
+// step instead. Returns the resulting step, or null if the path leaves the term.
+export function etaExpand(term: LambdaNode, path: TermPath = []): ReductionStep | null {
+	const target = subtermAt(term, path);
+	if (!target) return null;
+
+	const free = freeVariables(target);
+	const param = free.has('x') ? freshName('x', free) : 'x';
+	const expanded = abstraction(param, application(target, variable(param)));
+
+	// Rebuild the spine above the expanded subterm
+	const rebuild = (node: LambdaNode, depth: number): LambdaNode => {
+		if (depth === path.length) return expanded;
+		switch (path[depth]) {
+			case 'body': {
+				const { param, body } = node as Abstraction;
+				return abstraction(param, rebuild(body, depth + 1));
+			}
+			case 'func': {
+				const { func, arg } = node as Application;
+				return application(rebuild(func, depth + 1), arg);
+			}
+			case 'arg': {
+				const { func, arg } = node as Application;
+				return application(func, rebuild(arg, depth + 1));
+			}
+		}
+	};
+
+	return {
+		term: rebuild(term, 0),
+		reduction: {
+			rule: 'etaExpansion',
+			redexPath: [...path],
+			boundVariable: param,
+			substitutedPaths: [[...path, 'body', 'func']]
+		}
+	};
+}
+
+// Optimized evaluate function with performance improvements
+export function evaluate(
+	term: LambdaNode,
+	options: EvaluationOptions = {}
+): EvaluationOutcome & { steps: ReductionStep[]; } {
+	const steps: ReductionStep[] = [];
+	const run = evaluateSteps(term, options);
+
+	let next = run.next();
+	while (!next.done) {
+		steps.push(next.value);
+		next = run.next();
 	}
 
-	console.warn('Maximum evaluation steps reached, result may not be fully reduced');
-	return { result: current, steps };
+	return { ...next.value, steps };
 }
 
-// Convert a Church numeral back to a JavaScript number
-export function extractNumber(church: LambdaNode): number {
+// β-steps allowed when counting a numeral that is not in the usual form
+const EXTRACT_FUEL = 10000;
+
+// Convert a Church numeral back to a JavaScript number, or null if the term is not one
+export function extractNumber(church: LambdaNode): number | null {
 	// Make sure we have a proper Church numeral (should be an abstraction)
 	if (church.type !== 'abstraction') {
-		console.warn("Not a Church numeral (expected abstraction):", church);
-		return 0; // Return 0 for non-abstraction terms instead of throwing
+		return null;
 	}
 
-	// For simple cases, we can detect the number directly from the structure
-	if (church.type === 'abstraction' &&
-		church.body.type === 'abstraction') {
+	// For simple cases, we can detect the number directly from the structure.
+	// Comparing De Bruijn indices rather than names keeps this independent of
+	// how the binders happen to be called after alpha-conversion.
+	const nameless = toDeBruijn(church);
+	if (nameless.type === 'abstraction' && nameless.body.type === 'abstraction') {
 		let count = 0;
-		let current: LambdaNode = church.body.body;
+		let current: DeBruijnNode = nameless.body.body;
 
-		// Handle the case for zero: λf.λx.x
-		if (current.type === 'variable' &&
-			current.name === church.body.param) {
-			return 0;
-		}
-
-		// Count nested applications for small Church numerals
-		// Pattern: λf.λx.f(f(...f(x)))
-		while (current.type === 'application') {
+		// Pattern: λ.λ.1 (1 (... (1 0)))
+		while (current.type === 'application' &&
+			current.func.type === 'index' &&
+			current.func.index === 1) {
 			count++;
-
-			// Check if the function part is a variable matching our outer param
-			if (current.func.type !== 'variable' ||
-				current.func.name !== church.param) {
-				break;
-			}
-
 			current = current.arg;
 		}
 
-		// If we ended with the innermost variable matching the inner param,
-		// then we have a valid Church numeral
-		if (current.type === 'variable' &&
-			current.name === church.body.param) {
+		if (current.type === 'index' && current.index === 0) {
 			return count;
 		}
 	}
 
-	// If the direct approach didn't work, use the simulation approach as a fallback
-	try {
-		// Create a function to count applications
-		const counter = (n: number) => (x: any) => n + 1;
-		const identity = (x: any) => x;
-
-		// Simulate application in JavaScript
-		const applyChurch = (f: LambdaNode, arg: any): any => {
-			if (f.type === 'abstraction') {
-				// Create a JavaScript function representing the abstraction
-				return (x: any) => {
-					// Substitute the parameter with the argument in the body
-					const substituted = substitute(f.body, f.param, {
-						type: 'variable',
-						name: '_jsval_' // Special marker
-					});
-
-					// Evaluate the substituted body
-					if (substituted.type === 'variable' && substituted.name === '_jsval_') {
-						return arg;
-					} else if (substituted.type === 'application') {
-						// Apply the function to the argument
-						try {
-							const funcResult = applyChurch(substituted.func, arg);
-							return funcResult(applyChurch(substituted.arg, arg));
-						} catch (e) {
-							console.warn('Error in nested application:', e);
-							return NaN;
-						}
-					}
+	// Otherwise run the term, compiled to closures, on an increment and 0 and count.
+	// Only λf.λx.M is considered, so that e.g. λx.x is not read as 1.
+	if (church.body.type !== 'abstraction') {
+		return null;
+	}
+	return computeCompiled(church, readChurchNumeral, { maxFuel: EXTRACT_FUEL });
+}
 
-					console.warn("Unable to evaluate substituted body:", substituted);
-					return NaN;
-				};
-			}
+// Convert a Church boolean (λt f.t or λt f.f) back to a JavaScript boolean, or null
+// if the term is neither
+export function extractBoolean(church: LambdaNode): boolean | null {
+	const nameless = toDeBruijn(church);
+	if (nameless.type === 'abstraction' && nameless.body.type === 'abstraction' && nameless.body.body.type === 'index') {
+		switch (nameless.body.body.index) {
+			case 1: return true;
+			case 0: return false;
+		}
+	}
+	return null;
+}
 
-			console.warn("Not a function in applyChurch:", f);
-			return (x: any) => x; // Return identity function instead of throwing
-		};
+// Split λf.f a b into [a, b], or null if the term is not such a pair
+export function pairParts(pair: LambdaNode): [LambdaNode, LambdaNode] | null {
+	if (pair.type !== 'abstraction' || pair.body.type !== 'application' || pair.body.func.type !== 'application') {
+		return null;
+	}
 
-		try {
-			// Apply church to the counter function and initial value 0
-			const churchFunc = applyChurch(church, counter);
-			if (typeof churchFunc !== 'function') {
-				console.warn("Church numeral did not evaluate to a function:", churchFunc);
-				return 0;
-			}
+	const { func, arg: second } = pair.body;
+	const first = func.arg;
+	if (func.func.type !== 'variable' || func.func.name !== pair.param ||
+		freeVariables(first).has(pair.param) || freeVariables(second).has(pair.param)) {
+		return null;
+	}
 
-			const result = churchFunc(0);
-			if (Number.isNaN(result) || typeof result !== 'number') {
-				console.warn("Church numeral evaluated to non-number:", result);
-				return 0;
-			}
+	return [first, second];
+}
 
-			return result;
-		} catch (e) {
-			console.warn("Error evaluating Church numeral:", e);
-			return 0; // Return 0 instead of NaN for errors
-		}
-	} catch (e) {
-		console.warn("Error extracting number:", e);
-		return 0; // Return 0 instead of NaN for errors
-	}
-} 
\ No newline at end of file
+// Convert a pair of Church numerals (λf.f p n) back to the signed number p - n, or
+// null if the term is not such a pair
+export function extractInteger(church: LambdaNode): number | null {
+	const parts = pairParts(church);
+	if (!parts) return null;
+
+	const positive = extractNumber(parts[0]);
+	const negative = extractNumber(parts[1]);
+	return positive === null || negative === null ? null : positive - negative;
+}
+
+// Convert a rational (λf.f n d) back to its numerator and denominator, or null if the
+// term is not a pair of an integer and a Church numeral
+export function extractRational(church: LambdaNode): { numerator: number; denominator: number; } | null {
+	const parts = pairParts(church);
+	if (!parts) return null;
+
+	const numerator = extractInteger(parts[0]);
+	const denominator = extractNumber(parts[1]);
+	return numerator === null || denominator === null ? null : { numerator, denominator };
+}
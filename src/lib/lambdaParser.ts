@@ -0,0 +1,189 @@
+import { Definition, LambdaNode, abstraction, application, variable } from './lambdaCalculus';
+import { ParseError } from './parseError';
+
+type TokenType = 'lambda' | 'dot' | 'lparen' | 'rparen' | 'equals' | 'semicolon' | 'identifier' | 'end';
+
+interface Token {
+	type: TokenType;
+	value: string;
+	position: number;
+}
+
+// Tokenize a lambda term. Both `λ` and `\` start an abstraction; identifiers are
+// letters followed by letters, digits, underscores or primes (x, x', acc_1).
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < input.length) {
+		const char = input[i];
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === 'λ' || char === '\\') {
+			tokens.push({ type: 'lambda', value: char, position: i });
+			i++;
+		} else if (char === '.') {
+			tokens.push({ type: 'dot', value: char, position: i });
+			i++;
+		} else if (char === '(') {
+			tokens.push({ type: 'lparen', value: char, position: i });
+			i++;
+		} else if (char === ')') {
+			tokens.push({ type: 'rparen', value: char, position: i });
+			i++;
+		} else if (char === '=') {
+			tokens.push({ type: 'equals', value: char, position: i });
+			i++;
+		} else if (char === ';') {
+			tokens.push({ type: 'semicolon', value: char, position: i });
+			i++;
+		} else if (/[A-Za-z_]/.test(char)) {
+			const start = i;
+			while (i < input.length && /[A-Za-z0-9_']/.test(input[i])) {
+				i++;
+			}
+			tokens.push({ type: 'identifier', value: input.slice(start, i), position: start });
+		} else {
+			throw new ParseError(`Unexpected character '${char}'`, i);
+		}
+	}
+
+	tokens.push({ type: 'end', value: '', position: input.length });
+	return tokens;
+}
+
+// Describe a token for error messages
+function describe(token: Token): string {
+	return token.type === 'end' ? 'end of input' : `'${token.value}'`;
+}
+
+// Recursive descent parser for untyped lambda terms, optionally preceded by definitions:
+//
+//   program     ::= (definition ';')* [definition | term]
+//   definition  ::= identifier '=' term
+//   term        ::= abstraction | application
+//   abstraction ::= ('λ' | '\') identifier+ '.' term
+//   application ::= atom+ [abstraction]
+//   atom        ::= identifier | '(' term ')'
+//
+// Application is left-associative and an abstraction body extends as far right as possible,
+// so `λx y.x y z` is `λx.λy.((x y) z)`.
+function parse(input: string, allowDefinitions: boolean): { definitions: Definition[]; term: LambdaNode | null; } {
+	const tokens = tokenize(input);
+	let pos = 0;
+
+	const peek = (): Token => tokens[pos];
+
+	function expect(type: TokenType, expected: string): Token {
+		const token = peek();
+		if (token.type !== type) {
+			throw new ParseError(`Expected ${expected} but found ${describe(token)}`, token.position);
+		}
+		pos++;
+		return token;
+	}
+
+	function parseTerm(): LambdaNode {
+		if (peek().type === 'lambda') {
+			return parseAbstraction();
+		}
+		return parseApplication();
+	}
+
+	function parseAbstraction(): LambdaNode {
+		expect('lambda', "'λ'");
+
+		const params: string[] = [expect('identifier', 'a parameter name').value];
+		while (peek().type === 'identifier') {
+			params.push(peek().value);
+			pos++;
+		}
+
+		expect('dot', "'.' after the parameters");
+		const body = parseTerm();
+
+		// Multi-parameter sugar: λx y.M is λx.λy.M
+		return params.reduceRight<LambdaNode>((acc, param) => abstraction(param, acc), body);
+	}
+
+	function parseApplication(): LambdaNode {
+		let result = parseAtom();
+
+		while (true) {
+			const token = peek();
+			if (token.type === 'identifier' || token.type === 'lparen') {
+				result = application(result, parseAtom());
+			} else if (token.type === 'lambda') {
+				// A trailing abstraction swallows the rest of the input: f λx.x y is f (λx.x y)
+				result = application(result, parseAbstraction());
+			} else {
+				return result;
+			}
+		}
+	}
+
+	function parseAtom(): LambdaNode {
+		const token = peek();
+
+		if (token.type === 'identifier') {
+			pos++;
+			return variable(token.value);
+		}
+
+		if (token.type === 'lparen') {
+			pos++;
+			const inner = parseTerm();
+			const closing = peek();
+			if (closing.type !== 'rparen') {
+				throw new ParseError(`Expected ')' to close '(' at position ${token.position} but found ${describe(closing)}`, closing.position);
+			}
+			pos++;
+			return inner;
+		}
+
+		throw new ParseError(`Expected a variable, 'λ' or '(' but found ${describe(token)}`, token.position);
+	}
+
+	// A definition starts with a name followed by '='
+	const atDefinition = () => allowDefinitions && peek().type === 'identifier' && tokens[pos + 1].type === 'equals';
+
+	const definitions: Definition[] = [];
+	while (atDefinition()) {
+		const name = peek().value;
+		pos += 2;
+		definitions.push({ name, term: parseTerm() });
+
+		if (peek().type === 'end') {
+			return { definitions, term: null };
+		}
+		expect('semicolon', `';' after the definition of ${name}`);
+	}
+
+	if (peek().type === 'end') {
+		return { definitions, term: null };
+	}
+
+	const term = parseTerm();
+
+	const trailing = peek();
+	if (trailing.type !== 'end') {
+		throw new ParseError(`Unexpected ${describe(trailing)}`, trailing.position);
+	}
+
+	return { definitions, term };
+}
+
+export function parseLambdaExpression(input: string): LambdaNode {
+	const { term } = parse(input, false);
+	if (!term) {
+		throw new ParseError('Empty expression', 0);
+	}
+	return term;
+}
+
+// Parse definitions such as `TRUE = λt f.t; NOT = λb.b FALSE TRUE`, optionally followed
+// by a term that may use them: `...; NOT TRUE`. Either part may be missing.
+export function parseLambdaProgram(input: string): { definitions: Definition[]; term: LambdaNode | null; } {
+	return parse(input, true);
+}
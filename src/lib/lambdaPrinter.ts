@@ -0,0 +1,123 @@
+import { alphaEquivalent } from './deBruijn';
+import { LambdaNode, churchAdd, churchMultiply, churchPredecessor, churchSubtract } from './lambdaCalculus';
+
+// A named term that the printer may show by name instead of its expansion
+export interface Macro {
+	name: string;
+	term: LambdaNode;
+}
+
+export interface PrintOptions {
+	// 'unicode' prints λ, 'ascii' prints \
+	notation?: 'unicode' | 'ascii';
+	// 'minimal' omits parentheses implied by the usual conventions, 'full' wraps every compound term
+	parentheses?: 'minimal' | 'full';
+	// Print bound variables as De Bruijn indices (0 = nearest enclosing λ)
+	deBruijn?: boolean;
+	// Collapse nested abstractions into one binder: λf x.M instead of λf.λx.M
+	multiParam?: boolean;
+	// Show Church numerals as digits
+	foldNumerals?: boolean;
+	// Show terms alpha-equivalent to one of these macros by name
+	macros?: Macro[];
+}
+
+// The Church operators used by the arithmetic translation
+export const defaultMacros: Macro[] = [
+	{ name: 'PLUS', term: churchAdd },
+	{ name: 'MULT', term: churchMultiply },
+	{ name: 'PRED', term: churchPredecessor },
+	{ name: 'SUB', term: churchSubtract }
+];
+
+// Read λf.λx.f (f ... x) as a number, or null if the term is not a Church numeral
+function readNumeral(term: LambdaNode): number | null {
+	if (term.type !== 'abstraction' || term.body.type !== 'abstraction') return null;
+
+	const f = term.param;
+	const x = term.body.param;
+	if (f === x) return null;
+
+	let count = 0;
+	let current: LambdaNode = term.body.body;
+	while (current.type === 'application' && current.func.type === 'variable' && current.func.name === f) {
+		count++;
+		current = current.arg;
+	}
+
+	return current.type === 'variable' && current.name === x ? count : null;
+}
+
+// Render a lambda term as text
+export function printLambda(term: LambdaNode, options: PrintOptions = {}): string {
+	const {
+		notation = 'unicode',
+		parentheses = 'minimal',
+		deBruijn = false,
+		multiParam = true,
+		foldNumerals = false,
+		macros = []
+	} = options;
+
+	const lambda = notation === 'ascii' ? '\\' : 'λ';
+	const full = parentheses === 'full';
+
+	// Replace the whole term by a numeral or macro name when one applies
+	function folded(node: LambdaNode): string | null {
+		if (foldNumerals) {
+			const n = readNumeral(node);
+			if (n !== null) return String(n);
+		}
+		const macro = macros.find(m => alphaEquivalent(m.term, node));
+		return macro ? macro.name : null;
+	}
+
+	// `binders` lists the enclosing parameters, innermost last.
+	// `bare` is true at the top level and for abstraction bodies, the only places
+	// where an abstraction reads unambiguously without parentheses.
+	function print(node: LambdaNode, binders: string[], bare: boolean): string {
+		const name = folded(node);
+		if (name !== null) return name;
+
+		switch (node.type) {
+			case 'variable': {
+				if (!deBruijn) return node.name;
+				const index = binders.lastIndexOf(node.name);
+				return index === -1 ? node.name : String(binders.length - 1 - index);
+			}
+
+			case 'abstraction': {
+				const params = [node.param];
+				let body = node.body;
+				// Gather directly nested abstractions for the multi-parameter form
+				while (multiParam && !deBruijn && body.type === 'abstraction' && folded(body) === null) {
+					params.push(body.param);
+					body = body.body;
+				}
+
+				const inner = print(body, [...binders, ...params], true);
+				const text = deBruijn
+					? `${lambda} ${inner}`
+					: `${lambda}${params.join(' ')}.${inner}`;
+				return full || !bare ? `(${text})` : text;
+			}
+
+			case 'application': {
+				// Application is left-associative, so only a nested application
+				// in argument position needs its own parentheses
+				const funcText = print(node.func, binders, false);
+				const argText = node.arg.type === 'application' && !full && folded(node.arg) === null
+					? `(${print(node.arg, binders, true)})`
+					: print(node.arg, binders, false);
+
+				const text = `${funcText} ${argText}`;
+				return full ? `(${text})` : text;
+			}
+
+			default:
+				return 'unknown';
+		}
+	}
+
+	return print(term, [], true);
+}
@@ -1,35 +1,297 @@
+import { ParseError } from './parseError';
+
 export type MathNode =
 	| NumberNode
-	| BinaryOpNode;
+	| BooleanNode
+	| BinaryOpNode
+	| FactorialNode
+	| NegateNode
+	| ComparisonNode
+	| LogicalOpNode
+	| NotNode
+	| ConditionalNode
+	| VariableNode
+	| LetNode
+	| FunctionNode
+	| CallNode
+	| ListNode;
+
+// An exact fraction in lowest terms, with a positive denominator
+export interface Fraction {
+	numerator: number;
+	denominator: number;
+}
+
+// The values an expression can have. Numbers are fractions for rationals.
+export type MathValue = number | boolean | Fraction | MathValue[];
+
+// The types of values. The element type of a list is null while it is unknown, as
+// for the empty list.
+export type MathType = 'number' | 'boolean' | { list: MathType | null; };
+
+// The numbers expressions compute with. Natural numbers are single Church numerals
+// and subtraction stops at 0; integers are pairs of numerals standing for their
+// difference; rationals pair an integer numerator with a natural denominator.
+export type NumberSystem = 'natural' | 'integer' | 'rational';
+
+export const numberSystems: Record<NumberSystem, { label: string; description: string; }> = {
+	natural: {
+		label: "Natural numbers",
+		description: "Church numerals; subtraction stops at 0"
+	},
+	integer: {
+		label: "Integers",
+		description: "Pairs of Church numerals (p, n) standing for p - n, so results can be negative"
+	},
+	rational: {
+		label: "Rationals",
+		description: "Pairs of an integer numerator and a Church numeral denominator; allows decimals and exact division"
+	}
+};
+
+function gcd(a: number, b: number): number {
+	return b === 0 ? a : gcd(b, a % b);
+}
+
+// The fraction numerator/denominator in lowest terms
+export function fraction(numerator: number, denominator: number): Fraction {
+	const divisor = gcd(Math.abs(numerator), Math.abs(denominator)) * Math.sign(denominator);
+	return { numerator: numerator / divisor + 0, denominator: denominator / divisor };
+}
+
+// Most digits a literal may have: beyond this, doubles no longer hold it exactly
+const MAX_LITERAL_DIGITS = 15;
+
+// Largest numerator or denominator of a literal. The numeral for n is nested about n
+// deep, so this is about as deep as the default depth limit allows, and much larger
+// ones overflow the stack.
+const MAX_LITERAL = 1000;
+
+// The exact fraction a decimal literal stands for, e.g. 2.5 is 5/2. It is read from the
+// text as written, since the parsed number may be inexact or print in exponent notation.
+export function decimalToFraction(text: string): Fraction {
+	const [, whole = '', decimals = ''] = /^(\d*)(?:\.(\d*))?/.exec(text)!;
+	const digits = `${whole}${decimals.replace(/0+$/, '')}`;
+	if (digits.replace(/^0+/, '').length > MAX_LITERAL_DIGITS) {
+		throw new Error(`${text} has too many digits to calculate with exactly`);
+	}
+	return fraction(Number(digits), 10 ** (digits.length - whole.length));
+}
+
+// The exact value of a number literal
+export function literalValue(node: NumberNode): Fraction {
+	return decimalToFraction(node.text ?? String(node.value));
+}
+
+// Show a value as the calculator's result
+export function formatMathValue(value: MathValue): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(formatMathValue).join(', ')}]`;
+	}
+	if (typeof value === 'object') {
+		return value.denominator === 1 ? String(value.numerator) : `${value.numerator}/${value.denominator}`;
+	}
+	return String(value);
+}
 
 export interface NumberNode {
 	type: 'number';
 	value: number;
+	// The literal as written; absent for numbers the parser fills in itself
+	text?: string;
+}
+
+export interface BooleanNode {
+	type: 'boolean';
+	value: boolean;
 }
 
 export interface BinaryOpNode {
 	type: 'binaryOp';
-	operator: '+' | '-' | '*' | '/';
+	operator: '+' | '-' | '*' | '/' | '%' | '^';
+	left: MathNode;
+	right: MathNode;
+}
+
+// Postfix n!
+export interface FactorialNode {
+	type: 'factorial';
+	operand: MathNode;
+}
+
+// Unary minus
+export interface NegateNode {
+	type: 'negate';
+	operand: MathNode;
+}
+
+export interface ComparisonNode {
+	type: 'comparison';
+	operator: '<' | '<=' | '==';
 	left: MathNode;
 	right: MathNode;
 }
 
+export interface LogicalOpNode {
+	type: 'logicalOp';
+	operator: '&&' | '||';
+	left: MathNode;
+	right: MathNode;
+}
+
+// Prefix !b
+export interface NotNode {
+	type: 'not';
+	operand: MathNode;
+}
+
+// if c then a else b
+export interface ConditionalNode {
+	type: 'conditional';
+	condition: MathNode;
+	thenBranch: MathNode;
+	elseBranch: MathNode;
+}
+
+// A name bound by let, a definition or a function parameter
+export interface VariableNode {
+	type: 'variable';
+	name: string;
+}
+
+// let name = value in body, or a definition name = value; body
+export interface LetNode {
+	type: 'let';
+	name: string;
+	value: MathNode;
+	body: MathNode;
+}
+
+// A definition name(params) = body; followed by the expression it is visible in.
+// The function is also visible in its own body, so it can be recursive.
+export interface FunctionNode {
+	type: 'function';
+	name: string;
+	params: string[];
+	body: MathNode;
+	scope: MathNode;
+}
+
+// name(args)
+export interface CallNode {
+	type: 'call';
+	name: string;
+	args: MathNode[];
+}
+
+// [a, b, c]
+export interface ListNode {
+	type: 'list';
+	items: MathNode[];
+}
+
+// Functions every expression can call, with their number of arguments. The function
+// given to map and fold is the name of a defined function: map(f, xs), fold(f, z, xs).
+export const BUILTIN_FUNCTIONS: Record<string, number> = {
+	sum: 1,
+	length: 1,
+	map: 2,
+	fold: 3
+};
+
+function isBuiltin(name: string): boolean {
+	return Object.prototype.hasOwnProperty.call(BUILTIN_FUNCTIONS, name);
+}
+
+// Names are lowercase, which keeps them apart from the prelude's definitions
+function isName(token: string | undefined): boolean {
+	return token !== undefined && /^[a-z]\w*$/.test(token) && !KEYWORDS.includes(token);
+}
+
+export interface MathParseOptions {
+	// Report every mistake as a ParseError instead of reading past it. Without this,
+	// incomplete input such as "1+" or "(2" still parses, for live visualization.
+	strict?: boolean;
+}
+
+// What may start an operand, for error messages
+const OPERAND = ['a number', 'a name', "'('"];
+
 // Simple recursive descent parser for mathematical expressions
-export function parseMathExpression(expression: string): MathNode {
+export function parseMathExpression(expression: string, { strict = false }: MathParseOptions = {}): MathNode {
 	// Handle empty expressions
 	if (!expression.trim()) {
-		throw new Error("Empty expression");
+		throw new ParseError("Empty expression", 0, { length: 0 });
 	}
 
 	let pos = 0;
-	const tokens = tokenize(expression);
+	const lexed = tokenize(expression, strict);
+	const tokens = lexed.map(token => token.value);
 
 	// If there are no tokens, throw an error
 	if (tokens.length === 0) {
-		throw new Error("No valid tokens found");
+		throw new ParseError("No valid tokens found", 0, { length: expression.length });
+	}
+
+	// Report that the token at pos, or the end of the input, is not one of `expected`
+	function fail(expected: string[]): never {
+		const token = lexed[pos];
+		const found = token ? `'${token.value}'` : 'end of input';
+		const alternatives = expected.length > 1
+			? `${expected.slice(0, -1).join(', ')} or ${expected[expected.length - 1]}`
+			: expected[0];
+		throw new ParseError(`Expected ${alternatives} but found ${found}`, token ? token.position : expression.length, {
+			length: token ? token.value.length : 0,
+			expected
+		});
 	}
 
 	function parseExpression(): MathNode {
+		let left = parseAnd();
+
+		while (pos < tokens.length && tokens[pos] === '||') {
+			pos++;
+			left = { type: 'logicalOp', operator: '||', left, right: parseAnd() };
+		}
+
+		return left;
+	}
+
+	function parseAnd(): MathNode {
+		let left = parseNot();
+
+		while (pos < tokens.length && tokens[pos] === '&&') {
+			pos++;
+			left = { type: 'logicalOp', operator: '&&', left, right: parseNot() };
+		}
+
+		return left;
+	}
+
+	// Negation binds looser than comparison, so !1<2 reads as !(1<2). A '!' after
+	// an operand is the factorial, handled in parsePostfix.
+	function parseNot(): MathNode {
+		if (pos < tokens.length && tokens[pos] === '!') {
+			pos++;
+			return { type: 'not', operand: parseNot() };
+		}
+
+		return parseComparison();
+	}
+
+	function parseComparison(): MathNode {
+		let left = parseSum();
+
+		while (pos < tokens.length && (tokens[pos] === '<' || tokens[pos] === '<=' || tokens[pos] === '==')) {
+			const operator = tokens[pos] as '<' | '<=' | '==';
+			pos++;
+			left = { type: 'comparison', operator, left, right: parseSum() };
+		}
+
+		return left;
+	}
+
+	function parseSum(): MathNode {
 		let left = parseTerm();
 
 		while (pos < tokens.length && (tokens[pos] === '+' || tokens[pos] === '-')) {
@@ -37,7 +299,7 @@ export function parseMathExpression(expression: string): MathNode {
 			pos++;
 
 			// Handle partial expressions like "1+"
-			if (pos >= tokens.length) {
+			if (pos >= tokens.length && !strict) {
 				// For live visualization, treat missing right operand as 0
 				return {
 					type: 'binaryOp',
@@ -60,16 +322,16 @@ export function parseMathExpression(expression: string): MathNode {
 	}
 
 	function parseTerm(): MathNode {
-		let left = parseFactor();
+		let left = parseUnary();
 
-		while (pos < tokens.length && (tokens[pos] === '*' || tokens[pos] === '/')) {
-			const operator = tokens[pos] as '*' | '/';
+		while (pos < tokens.length && (tokens[pos] === '*' || tokens[pos] === '/' || tokens[pos] === '%')) {
+			const operator = tokens[pos] as '*' | '/' | '%';
 			pos++;
 
 			// Handle partial expressions like "1*"
-			if (pos >= tokens.length) {
+			if (pos >= tokens.length && !strict) {
 				// For live visualization, treat missing right operand as 1
-				// (this makes sense for * and /, since x*1=x and x/1=x)
+				// (this makes sense for * and /, since x*1=x and x/1=x, and keeps % defined)
 				return {
 					type: 'binaryOp',
 					operator,
@@ -78,7 +340,7 @@ export function parseMathExpression(expression: string): MathNode {
 				};
 			}
 
-			const right = parseFactor();
+			const right = parseUnary();
 			left = {
 				type: 'binaryOp',
 				operator,
@@ -90,16 +352,200 @@ export function parseMathExpression(expression: string): MathNode {
 		return left;
 	}
 
+	// Unary minus binds looser than exponentiation: -2^2 is -(2^2)
+	function parseUnary(): MathNode {
+		if (pos < tokens.length && tokens[pos] === '-') {
+			pos++;
+			return { type: 'negate', operand: parseUnary() };
+		}
+
+		return parsePower();
+	}
+
+	// Exponentiation binds tighter than * and is right-associative: 2^3^2 is 2^(3^2)
+	function parsePower(): MathNode {
+		const base = parsePostfix();
+
+		if (pos < tokens.length && tokens[pos] === '^') {
+			pos++;
+
+			// Handle partial expressions like "2^"
+			if (pos >= tokens.length && !strict) {
+				// For live visualization, treat missing exponent as 1
+				return {
+					type: 'binaryOp',
+					operator: '^',
+					left: base,
+					right: { type: 'number', value: 1 }
+				};
+			}
+
+			return {
+				type: 'binaryOp',
+				operator: '^',
+				left: base,
+				right: parseUnary()
+			};
+		}
+
+		return base;
+	}
+
+	// Factorial binds tightest: 2^3! is 2^(3!)
+	function parsePostfix(): MathNode {
+		let operand = parseFactor();
+
+		while (pos < tokens.length && tokens[pos] === '!') {
+			pos++;
+			operand = { type: 'factorial', operand };
+		}
+
+		return operand;
+	}
+
+	// Consume a keyword that must come next
+	function expect(keyword: string) {
+		if (pos >= tokens.length || tokens[pos] !== keyword) {
+			fail([`'${keyword}'`]);
+		}
+		pos++;
+	}
+
+	// Consume the name of a new variable, function or parameter
+	function expectNewName(): string {
+		const name = expectName();
+		if (isBuiltin(name)) {
+			throw new ParseError(`${name} is a built-in function and cannot be redefined`, lexed[pos - 1].position, { length: name.length });
+		}
+		return name;
+	}
+
+	// Consume a name that must come next
+	function expectName(): string {
+		const token = tokens[pos];
+		if (isName(token)) {
+			pos++;
+			return token;
+		}
+		if (pos < tokens.length && /^[a-z]/i.test(token) && !KEYWORDS.includes(token)) {
+			throw new ParseError(`Names must start with a lowercase letter: ${token}`, lexed[pos].position, { length: token.length });
+		}
+		return fail(['a name']);
+	}
+
+	// Comma-separated expressions after an opening parenthesis or bracket, up to the
+	// closing one. For live visualization, a missing closing one is allowed.
+	function parseArguments(closing: ')' | ']'): MathNode[] {
+		const args: MathNode[] = [];
+		if (pos < tokens.length && tokens[pos] === closing) {
+			pos++;
+			return args;
+		}
+
+		while (pos < tokens.length) {
+			args.push(parseExpression());
+			if (pos < tokens.length && tokens[pos] === ',') {
+				pos++;
+			} else {
+				break;
+			}
+		}
+
+		if (pos < tokens.length && tokens[pos] === closing) {
+			pos++;
+		} else if (strict) {
+			fail(["','", `'${closing}'`]);
+		}
+		return args;
+	}
+
+	// Whether a definition name = ... or name(params) = ... comes next
+	function isDefinitionAhead(): boolean {
+		if (!isName(tokens[pos])) return false;
+		if (tokens[pos + 1] === '=') return true;
+		if (tokens[pos + 1] !== '(') return false;
+
+		let end = pos + 2;
+		while (end < tokens.length && tokens[end] !== ')') end++;
+		return tokens[end + 1] === '=';
+	}
+
+	// Definitions separated by semicolons, followed by the expression to calculate.
+	// Each definition is visible in the definitions after it and in the expression.
+	function parseProgram(): MathNode {
+		if (!isDefinitionAhead()) {
+			return parseExpression();
+		}
+
+		const name = expectNewName();
+		const params: string[] = [];
+		if (tokens[pos] === '(') {
+			pos++;
+			while (tokens[pos] !== ')') {
+				params.push(expectNewName());
+				if (tokens[pos] === ',') {
+					pos++;
+					if (strict && tokens[pos] === ')') {
+						fail(['a parameter name']);
+					}
+				} else if (strict && tokens[pos] !== ')') {
+					fail(["','", "')'"]);
+				}
+			}
+			pos++; // Skip ')'
+		}
+		expect('=');
+		const body = parseExpression();
+		expect(';');
+		const scope = parseProgram();
+
+		// A definition without parameters is the same as a let
+		return params.length === 0
+			? { type: 'let', name, value: body, body: scope }
+			: { type: 'function', name, params, body, scope };
+	}
+
 	function parseFactor(): MathNode {
 		if (pos >= tokens.length) {
-			throw new Error("Unexpected end of expression");
+			fail(OPERAND);
 		}
 
-		if (tokens[pos] === '(') {
+		if (tokens[pos] === 'true' || tokens[pos] === 'false') {
+			const value = tokens[pos] === 'true';
+			pos++;
+			return { type: 'boolean', value };
+		} else if (tokens[pos] === 'if') {
+			// The else branch extends as far right as possible
+			pos++;
+			const condition = parseExpression();
+			expect('then');
+			const thenBranch = parseExpression();
+			expect('else');
+			const elseBranch = parseExpression();
+			return { type: 'conditional', condition, thenBranch, elseBranch };
+		} else if (tokens[pos] === 'let') {
+			// Like the else branch, the body extends as far right as possible
+			pos++;
+			const name = expectNewName();
+			expect('=');
+			const value = parseExpression();
+			expect('in');
+			return { type: 'let', name, value, body: parseExpression() };
+		} else if (/^[a-z]/i.test(tokens[pos])) {
+			const name = expectName();
+			if (pos < tokens.length && tokens[pos] === '(') {
+				pos++;
+				return { type: 'call', name, args: parseArguments(')') };
+			}
+			return { type: 'variable', name };
+		} else if (tokens[pos] === '[') {
+			pos++;
+			return { type: 'list', items: parseArguments(']') };
+		} else if (tokens[pos] === '(') {
 			pos++; // Skip '('
 
 			// Handle case where we have "(" but no closing ")"
-			if (pos >= tokens.length) {
+			if (pos >= tokens.length && !strict) {
 				return { type: 'number', value: 0 };
 			}
 
@@ -108,19 +554,27 @@ export function parseMathExpression(expression: string): MathNode {
 			// Check if we have a closing parenthesis
 			if (pos < tokens.length && tokens[pos] === ')') {
 				pos++; // Skip ')'
+			} else if (strict) {
+				fail(["')'"]);
 			}
 
 			return expr;
 		} else {
 			// Must be a number
+			if (strict && !/^\d+(\.\d+)?$/.test(tokens[pos])) {
+				if (/^\d/.test(tokens[pos])) {
+					throw new ParseError(`Invalid number '${tokens[pos]}'`, lexed[pos].position, { length: tokens[pos].length });
+				}
+				fail(OPERAND);
+			}
+
 			// Handle case where token isn't a valid number
 			try {
 				const value = parseFloat(tokens[pos]);
 				if (isNaN(value)) {
 					throw new Error(`Invalid number: ${tokens[pos]}`);
 				}
-				pos++;
-				return { type: 'number', value };
+				return { type: 'number', value, text: tokens[pos++] };
 			} catch (e) {
 				// For live visualization, return 0 for invalid numbers
 				pos++;
@@ -129,32 +583,60 @@ export function parseMathExpression(expression: string): MathNode {
 		}
 	}
 
-	return parseExpression();
+	const result = parseProgram();
+
+	// Anything left over could not be read
+	if (strict && pos < tokens.length) {
+		fail(['an operator', 'end of input']);
+	}
+
+	return result;
+}
+
+const KEYWORDS = ['if', 'then', 'else', 'true', 'false', 'let', 'in'];
+
+// Operators of two characters, matched before single-character ones
+const TWO_CHAR_OPERATORS = ['<=', '==', '&&', '||'];
+
+interface MathToken {
+	value: string;
+	position: number;
 }
 
-// Simple tokenizer for mathematical expressions
-function tokenize(expression: string): string[] {
-	const tokens: string[] = [];
+// Simple tokenizer for mathematical expressions. Invalid characters are skipped,
+// unless parsing is strict.
+function tokenize(expression: string, strict: boolean): MathToken[] {
+	const tokens: MathToken[] = [];
 	let i = 0;
 
 	while (i < expression.length) {
 		const char = expression[i];
+		const start = i;
 
 		if (/\s/.test(char)) {
 			// Skip whitespace
 			i++;
 		} else if (/\d/.test(char)) {
 			// Parse number (integer or decimal)
-			let number = '';
 			while (i < expression.length && (/\d/.test(expression[i]) || expression[i] === '.')) {
-				number += expression[i];
 				i++;
 			}
-			tokens.push(number);
-		} else if (['+', '-', '*', '/', '(', ')'].includes(char)) {
+			tokens.push({ value: expression.slice(start, i), position: start });
+		} else if (/[a-z]/i.test(char)) {
+			// Keywords and names
+			while (i < expression.length && /\w/.test(expression[i])) {
+				i++;
+			}
+			tokens.push({ value: expression.slice(start, i), position: start });
+		} else if (TWO_CHAR_OPERATORS.includes(expression.slice(i, i + 2))) {
+			tokens.push({ value: expression.slice(i, i + 2), position: start });
+			i += 2;
+		} else if (['+', '-', '*', '/', '%', '^', '!', '<', '(', ')', '[', ']', '=', ',', ';'].includes(char)) {
 			// Operators and parentheses
-			tokens.push(char);
+			tokens.push({ value: char, position: start });
 			i++;
+		} else if (strict) {
+			throw new ParseError(`Unexpected character '${char}'`, i);
 		} else {
 			// Skip invalid characters
 			i++;
@@ -164,21 +646,468 @@ function tokenize(expression: string): string[] {
 	return tokens;
 }
 
-// For testing - evaluate the AST to get a result
-export function evaluateMathAST(node: MathNode): number {
+// The names an expression refers to without defining them
+export function freeNames(node: MathNode): Set<string> {
+	const names = new Set<string>();
+	const add = (child: MathNode, bound: string[] = []) => {
+		freeNames(child).forEach(name => {
+			if (!bound.includes(name)) names.add(name);
+		});
+	};
+
+	switch (node.type) {
+		case 'variable':
+			names.add(node.name);
+			break;
+		case 'call':
+			if (!isBuiltin(node.name)) names.add(node.name);
+			node.args.forEach(arg => add(arg));
+			break;
+		case 'list':
+			node.items.forEach(item => add(item));
+			break;
+		case 'let':
+			add(node.value);
+			add(node.body, [node.name]);
+			break;
+		case 'function':
+			add(node.body, [node.name, ...node.params]);
+			add(node.scope, [node.name]);
+			break;
+		case 'binaryOp':
+		case 'comparison':
+		case 'logicalOp':
+			add(node.left);
+			add(node.right);
+			break;
+		case 'factorial':
+		case 'negate':
+		case 'not':
+			add(node.operand);
+			break;
+		case 'conditional':
+			add(node.condition);
+			add(node.thenBranch);
+			add(node.elseBranch);
+			break;
+	}
+
+	return names;
+}
+
+// A type as it reads in error messages
+function describeType(type: MathType | null): string {
+	if (type === null) return 'value';
+	if (typeof type === 'string') return type;
+	if (type.list === null) return 'list';
+	return `list of ${describeType(type.list)}s`;
+}
+
+// The type two values of types a and b can both have, filling in what one of them
+// leaves unknown, or undefined if they are incompatible
+function unifyTypes(a: MathType | null, b: MathType | null): MathType | null | undefined {
+	if (a === null) return b;
+	if (b === null) return a;
+	if (typeof a === 'string' || typeof b === 'string') return a === b ? a : undefined;
+
+	const list = unifyTypes(a.list, b.list);
+	return list === undefined ? undefined : { list };
+}
+
+// What a name stands for while checking types. A function's body is checked at each
+// call, with the types of the arguments given there; while it is being checked, the
+// type of a recursive call is unknown (null), which fits wherever it is used.
+type TypeBinding =
+	| { kind: 'value'; type: MathType | null; }
+	| FunctionBinding;
+
+interface FunctionBinding {
+	kind: 'function';
+	definition: FunctionNode;
+	scope: TypeScope;
+	checking: boolean;
+}
+
+type TypeScope = ReadonlyMap<string, TypeBinding>;
+
+// The type of value an expression produces, checking that every operator gets
+// operands of the right type. Church booleans and numerals are both just
+// functions (FALSE is even the same term as 0), so the result of a reduction can
+// only be read back knowing which of the two it is meant to be. Also checks that
+// the numbers and operators used exist in the given number system, and that every
+// name is defined and used as what it is.
+export function mathResultType(node: MathNode, numbers: NumberSystem = 'natural'): MathType {
+	// Only a function that does nothing but call itself has no known type
+	return typeIn(node, numbers, new Map()) ?? 'number';
+}
+
+function typeIn(node: MathNode, numbers: NumberSystem, scope: TypeScope): MathType | null {
+	const typeOf = (child: MathNode) => typeIn(child, numbers, scope);
+	const match = (actual: MathType | null, type: MathType, context: string) => {
+		const unified = unifyTypes(actual, type);
+		if (unified === undefined) {
+			throw new Error(`Expected a ${describeType(type)} ${context}, but found a ${describeType(actual)}`);
+		}
+		return unified;
+	};
+	const expectType = (operand: MathNode, type: MathType, context: string) => match(typeOf(operand), type, context);
+
+	// The element type of a list operand
+	const expectList = (operand: MathNode, context: string) => {
+		const list = expectType(operand, { list: null }, context);
+		return list === null ? null : (list as { list: MathType | null; }).list;
+	};
+
+	// Rationals have exact division instead of whole-number division with remainder
+	const unsupported = (operator: string) => {
+		if (numbers === 'rational') {
+			throw new Error(`${operator} is not available for rationals`);
+		}
+	};
+
+	const lookup = (name: string) => {
+		const binding = scope.get(name);
+		if (!binding) throw new Error(`Unknown name ${name}`);
+		return binding;
+	};
+
+	// The function a built-in is given, which must be the name of one taking `arity` arguments
+	const functionArgument = (argument: MathNode, builtin: string, arity: number): FunctionBinding => {
+		const binding = argument.type === 'variable' ? lookup(argument.name) : null;
+		if (!binding || binding.kind !== 'function') {
+			throw new Error(`Expected the name of a function as the first argument of ${builtin}`);
+		}
+		if (binding.definition.params.length !== arity) {
+			throw new Error(`${builtin} needs a function of ${arity} argument${arity === 1 ? '' : 's'}, but ${binding.definition.name} takes ${binding.definition.params.length}`);
+		}
+		return binding;
+	};
+
+	const expectArguments = (call: CallNode, count: number) => {
+		if (call.args.length !== count) {
+			throw new Error(`${call.name} takes ${count} argument${count === 1 ? '' : 's'}, but got ${call.args.length}`);
+		}
+	};
+
+	// The type of a function's body when called with arguments of the given types
+	const callType = (binding: FunctionBinding, args: (MathType | null)[]) => {
+		if (binding.checking) return null;
+
+		const bodyScope = new Map(binding.scope);
+		binding.definition.params.forEach((param, i) => bodyScope.set(param, { kind: 'value', type: args[i] }));
+		binding.checking = true;
+		try {
+			return typeIn(binding.definition.body, numbers, bodyScope);
+		} finally {
+			binding.checking = false;
+		}
+	};
+
+	const builtinType = (call: CallNode): MathType | null => {
+		const [first, second, third] = call.args;
+		switch (call.name) {
+			case 'sum':
+				expectType(first, { list: 'number' }, 'as the argument of sum');
+				return 'number';
+			case 'length':
+				expectList(first, 'as the argument of length');
+				return 'number';
+			case 'map': {
+				const f = functionArgument(first, 'map', 1);
+				return { list: callType(f, [expectList(second, 'as the second argument of map')]) };
+			}
+			case 'fold': {
+				// fold(f, z, [a, b]) is f(a, f(b, z)), so f returns values like z
+				const f = functionArgument(first, 'fold', 2);
+				const initial = typeOf(second);
+				const result = callType(f, [expectList(third, 'as the third argument of fold'), initial]);
+				return initial === null ? result : match(result, initial, `from ${f.definition.name} to match the initial value of fold`);
+			}
+			default:
+				throw new Error(`Unknown function ${call.name}`);
+		}
+	};
+
+	switch (node.type) {
+		case 'number': {
+			if (numbers !== 'rational' && !Number.isInteger(node.value)) {
+				throw new Error(`${node.text ?? node.value} is not a whole number; choose Rationals to calculate with decimals`);
+			}
+			const { numerator, denominator } = literalValue(node);
+			if (Math.max(Math.abs(numerator), denominator) > MAX_LITERAL) {
+				throw new Error(`${node.text ?? node.value} is too large to encode as a numeral; numerators and denominators go up to ${MAX_LITERAL}`);
+			}
+			return 'number';
+		}
+		case 'boolean':
+			return 'boolean';
+		case 'binaryOp':
+			if (node.operator === '%' || node.operator === '^') unsupported(node.operator);
+			expectType(node.left, 'number', `on the left of ${node.operator}`);
+			expectType(node.right, 'number', `on the right of ${node.operator}`);
+			return 'number';
+		case 'factorial':
+			unsupported('!');
+			expectType(node.operand, 'number', 'before !');
+			return 'number';
+		case 'negate':
+			expectType(node.operand, 'number', 'after -');
+			return 'number';
+		case 'comparison':
+			expectType(node.left, 'number', `on the left of ${node.operator}`);
+			expectType(node.right, 'number', `on the right of ${node.operator}`);
+			return 'boolean';
+		case 'logicalOp':
+			expectType(node.left, 'boolean', `on the left of ${node.operator}`);
+			expectType(node.right, 'boolean', `on the right of ${node.operator}`);
+			return 'boolean';
+		case 'not':
+			expectType(node.operand, 'boolean', 'after !');
+			return 'boolean';
+		case 'conditional': {
+			expectType(node.condition, 'boolean', 'as the condition of if');
+			const thenType = typeOf(node.thenBranch);
+			if (thenType === null) return typeOf(node.elseBranch);
+			return expectType(node.elseBranch, thenType, 'in the else branch to match the then branch');
+		}
+		case 'list': {
+			let item: MathType | null = null;
+			for (let i = 0; i < node.items.length; i++) {
+				item = item === null
+					? typeOf(node.items[i])
+					: expectType(node.items[i], item, `at position ${i + 1} of the list to match the ones before`);
+			}
+			return { list: item };
+		}
+		case 'variable': {
+			const binding = lookup(node.name);
+			if (binding.kind === 'function') {
+				throw new Error(`${node.name} is a function; call it as ${node.name}(...)`);
+			}
+			return binding.type;
+		}
+		case 'let': {
+			const binding: TypeBinding = { kind: 'value', type: typeOf(node.value) };
+			return typeIn(node.body, numbers, new Map(scope).set(node.name, binding));
+		}
+		case 'function': {
+			const inner = new Map(scope);
+			inner.set(node.name, { kind: 'function', definition: node, scope: inner, checking: false });
+			return typeIn(node.scope, numbers, inner);
+		}
+		case 'call': {
+			if (isBuiltin(node.name)) {
+				expectArguments(node, BUILTIN_FUNCTIONS[node.name]);
+				return builtinType(node);
+			}
+
+			const binding = lookup(node.name);
+			if (binding.kind !== 'function') {
+				throw new Error(`${node.name} is not a function`);
+			}
+			expectArguments(node, binding.definition.params.length);
+			return callType(binding, node.args.map(typeOf));
+		}
+		default:
+			throw new Error(`Unknown node type: ${(node as any).type}`);
+	}
+}
+
+function asNumber(value: MathValue): number {
+	if (typeof value !== 'number') throw new Error(`Expected a number, but found ${value}`);
+	return value;
+}
+
+function asBoolean(value: MathValue): boolean {
+	if (typeof value !== 'boolean') throw new Error(`Expected a boolean, but found ${value}`);
+	return value;
+}
+
+function asFraction(value: MathValue): Fraction {
+	if (typeof value !== 'object' || Array.isArray(value)) throw new Error(`Expected a fraction, but found ${value}`);
+	return value;
+}
+
+// Evaluate the nodes whose meaning differs for rationals, which are exact
+function evaluateRational(node: NumberNode | BinaryOpNode | NegateNode | ComparisonNode, evaluate: (child: MathNode) => MathValue): MathValue {
 	if (node.type === 'number') {
+		return literalValue(node);
+	} else if (node.type === 'negate') {
+		const { numerator, denominator } = asFraction(evaluate(node.operand));
+		return fraction(-numerator, denominator);
+	}
+
+	const left = asFraction(evaluate(node.left));
+	const right = asFraction(evaluate(node.right));
+	// Both sides over the common denominator
+	const a = left.numerator * right.denominator;
+	const b = right.numerator * left.denominator;
+	const denominator = left.denominator * right.denominator;
+
+	switch (node.operator) {
+		case '+': return fraction(a + b, denominator);
+		case '-': return fraction(a - b, denominator);
+		case '*': return fraction(left.numerator * right.numerator, denominator);
+		case '/':
+			if (right.numerator === 0) throw new Error("Division by zero");
+			return fraction(a, b);
+		case '<': return a < b;
+		case '<=': return a <= b;
+		case '==': return a === b;
+		default: throw new Error(`Unknown operator: ${node.operator}`);
+	}
+}
+
+// A function defined in the expression, with the names visible where it was defined
+interface MathClosure {
+	definition: FunctionNode;
+	scope: ValueScope;
+}
+
+type ValueScope = ReadonlyMap<string, MathValue | MathClosure>;
+
+function isClosure(value: MathValue | MathClosure | undefined): value is MathClosure {
+	return typeof value === 'object' && 'definition' in value;
+}
+
+function lookupClosure(name: string, scope: ValueScope): MathClosure {
+	const closure = scope.get(name);
+	if (!isClosure(closure)) throw new Error(`${name} is not a function`);
+	return closure;
+}
+
+function callClosure(closure: MathClosure, args: MathValue[], numbers: NumberSystem): MathValue {
+	const bodyScope = new Map(closure.scope);
+	closure.definition.params.forEach((param, i) => bodyScope.set(param, args[i]));
+	return evaluateIn(closure.definition.body, numbers, bodyScope);
+}
+
+function asList(value: MathValue): MathValue[] {
+	if (!Array.isArray(value)) throw new Error(`Expected a list, but found ${value}`);
+	return value;
+}
+
+function evaluateBuiltin(node: CallNode, numbers: NumberSystem, scope: ValueScope): MathValue {
+	const evaluate = (child: MathNode) => evaluateIn(child, numbers, scope);
+	// The function given to map and fold is named by the first argument
+	const closure = () => lookupClosure((node.args[0] as VariableNode).name, scope);
+	// Numbers of the expression's number system
+	const number = (n: number): MathValue => numbers === 'rational' ? fraction(n, 1) : n;
+	const add = (a: MathValue, b: MathValue): MathValue => {
+		if (numbers !== 'rational') return asNumber(a) + asNumber(b);
+		const left = asFraction(a);
+		const right = asFraction(b);
+		return fraction(left.numerator * right.denominator + right.numerator * left.denominator, left.denominator * right.denominator);
+	};
+
+	switch (node.name) {
+		case 'sum': return asList(evaluate(node.args[0])).reduce(add, number(0));
+		case 'length': return number(asList(evaluate(node.args[0])).length);
+		case 'map': {
+			const f = closure();
+			return asList(evaluate(node.args[1])).map(item => callClosure(f, [item], numbers));
+		}
+		case 'fold': {
+			const f = closure();
+			const initial = evaluate(node.args[1]);
+			return asList(evaluate(node.args[2])).reduceRight((result, item) => callClosure(f, [item, result], numbers), initial);
+		}
+		default: throw new Error(`Unknown function ${node.name}`);
+	}
+}
+
+// For testing - evaluate the AST to get a result
+export function evaluateMathAST(node: MathNode, numbers: NumberSystem = 'natural'): MathValue {
+	return evaluateIn(node, numbers, new Map());
+}
+
+function evaluateIn(node: MathNode, numbers: NumberSystem, scope: ValueScope): MathValue {
+	const evaluate = (child: MathNode) => evaluateIn(child, numbers, scope);
+
+	// Church numerals are natural numbers, so subtraction stops at 0 (monus)
+	const difference = (left: number, right: number) => numbers === 'natural' ? Math.max(0, left - right) : left - right;
+
+	if (numbers === 'rational' &&
+		(node.type === 'number' || node.type === 'binaryOp' || node.type === 'negate' || node.type === 'comparison')) {
+		return evaluateRational(node, evaluate);
+	}
+
+	if (node.type === 'number' || node.type === 'boolean') {
 		return node.value;
 	} else if (node.type === 'binaryOp') {
-		const left = evaluateMathAST(node.left);
-		const right = evaluateMathAST(node.right);
+		const left = asNumber(evaluate(node.left));
+		const right = asNumber(evaluate(node.right));
 
 		switch (node.operator) {
 			case '+': return left + right;
-			case '-': return left - right;
+			case '-': return difference(left, right);
 			case '*': return left * right;
-			case '/': return left / right;
-			default: throw new Error(`Unknown operator: ${node.operator}`);
+			// Division and remainder on whole numbers, as in the Church encoding.
+			// The quotient is rounded towards zero, so the remainder has the sign of the dividend.
+			case '/':
+				if (right === 0) throw new Error("Division by zero");
+				return Math.trunc(left / right);
+			case '%':
+				if (right === 0) throw new Error("Division by zero");
+				return left % right;
+			case '^':
+				if (right < 0) throw new Error("Negative exponent");
+				return Math.pow(left, right);
+			default: throw new Error(`Unknown operator: ${(node as any).operator}`);
+		}
+	} else if (node.type === 'negate') {
+		return difference(0, asNumber(evaluate(node.operand)));
+	} else if (node.type === 'factorial') {
+		const operand = asNumber(evaluate(node.operand));
+		if (operand < 0) throw new Error("Factorial of a negative number");
+		let result = 1;
+		for (let i = 2; i <= operand; i++) {
+			result *= i;
+		}
+		return result;
+	} else if (node.type === 'comparison') {
+		const left = asNumber(evaluate(node.left));
+		const right = asNumber(evaluate(node.right));
+
+		switch (node.operator) {
+			case '<': return left < right;
+			case '<=': return left <= right;
+			case '==': return left === right;
+			default: throw new Error(`Unknown operator: ${(node as any).operator}`);
+		}
+	} else if (node.type === 'logicalOp') {
+		const left = asBoolean(evaluate(node.left));
+
+		switch (node.operator) {
+			case '&&': return left && asBoolean(evaluate(node.right));
+			case '||': return left || asBoolean(evaluate(node.right));
+			default: throw new Error(`Unknown operator: ${(node as any).operator}`);
+		}
+	} else if (node.type === 'not') {
+		return !asBoolean(evaluate(node.operand));
+	} else if (node.type === 'conditional') {
+		return asBoolean(evaluate(node.condition))
+			? evaluate(node.thenBranch)
+			: evaluate(node.elseBranch);
+	} else if (node.type === 'variable') {
+		const value = scope.get(node.name);
+		if (value === undefined) throw new Error(`Unknown name ${node.name}`);
+		if (isClosure(value)) throw new Error(`${node.name} is a function; call it as ${node.name}(...)`);
+		return value;
+	} else if (node.type === 'let') {
+		return evaluateIn(node.body, numbers, new Map(scope).set(node.name, evaluate(node.value)));
+	} else if (node.type === 'function') {
+		const inner = new Map(scope);
+		inner.set(node.name, { definition: node, scope: inner });
+		return evaluateIn(node.scope, numbers, inner);
+	} else if (node.type === 'list') {
+		return node.items.map(evaluate);
+	} else if (node.type === 'call') {
+		if (isBuiltin(node.name)) {
+			return evaluateBuiltin(node, numbers, scope);
 		}
+		// Arguments are evaluated before the call, as in call by value
+		return callClosure(lookupClosure(node.name, scope), node.args.map(evaluate), numbers);
 	}
 
 	throw new Error(`Unknown node type: ${(node as any).type}`);
@@ -1,90 +1,331 @@
 import {
+	Environment,
+	EvaluationOptions,
 	LambdaNode,
+	ReductionStep,
+	Termination,
+	abstraction,
 	application,
-	churchAdd,
-	churchMultiply,
-	churchNumber,
-	churchSubtract,
-	clearSubstitutionCache,
-	evaluate,
-	extractNumber
+	churchInteger,
+	churchRational,
+	evaluateSteps,
+	extractBoolean,
+	extractInteger,
+	extractRational,
+	freeVariables,
+	variable
 } from './lambdaCalculus';
-import { MathNode, evaluateMathAST } from './mathParser';
+import { CombinatorBasis, combinatorNormalForm, evaluateCombinatorSteps } from './combinators';
+import { Value, computeCompiled, mismatch, readBoolean, readChurchNumeral, readList, readPair } from './compileToJs';
+import { ListEncodingName, NumeralEncodingName, listEncodings, mathDefinitions, numeralEncodings } from './encodings';
+import {
+	Fraction,
+	FunctionNode,
+	MathNode,
+	MathType,
+	MathValue,
+	NumberSystem,
+	evaluateMathAST,
+	fraction,
+	freeNames,
+	literalValue,
+	mathResultType
+} from './mathParser';
+
+type NumericOperator = '+' | '-' | '*' | '/' | '%' | '^' | '!' | '<' | '<=' | '==';
+
+// Whether an operand refers to no names, so its value is known before the reduction
+function isConstant(node: MathNode): boolean {
+	return freeNames(node).size === 0;
+}
+
+// Whether a function calls itself, rather than a name its parameters shadow
+function isRecursive(node: FunctionNode): boolean {
+	return freeNames(node.body).has(node.name) && !node.params.includes(node.name);
+}
+
+// Whether an expression's definitions include a recursive function. Definitions are
+// chained at the top of the expression, each containing the ones after it.
+function definesRecursion(node: MathNode): boolean {
+	if (node.type === 'function') return isRecursive(node) || definesRecursion(node.scope);
+	if (node.type === 'let') return definesRecursion(node.body);
+	return false;
+}
+
+// Prelude names of the numeric operators for each number system. Rationals have no
+// %, ^ or !, which mathResultType rejects before conversion.
+const OPERATOR_NAMES: Record<NumberSystem, Partial<Record<NumericOperator, string>>> = {
+	natural: { '+': 'PLUS', '-': 'SUB', '*': 'MULT', '/': 'DIV', '%': 'MOD', '^': 'EXP', '!': 'FACT', '<': 'LT', '<=': 'LEQ', '==': 'EQ' },
+	integer: { '+': 'IPLUS', '-': 'ISUB', '*': 'IMULT', '/': 'IDIV', '%': 'IMOD', '^': 'IEXP', '!': 'IFACT', '<': 'ILT', '<=': 'ILEQ', '==': 'IEQ' },
+	rational: { '+': 'RPLUS', '-': 'RSUB', '*': 'RMULT', '/': 'RDIV', '<': 'RLT', '<=': 'RLEQ', '==': 'REQ' }
+};
+
+// The term for a number: a numeral of the given encoding for natural numbers, a pair
+// of Church numerals for integers, and a pair of an integer and a numeral for rationals
+function numberTerm(value: number | Fraction, numbers: NumberSystem, encoding: NumeralEncodingName): LambdaNode {
+	if (numbers === 'rational') {
+		const { numerator, denominator } = typeof value === 'number' ? fraction(value, 1) : value;
+		return churchRational(numerator, denominator);
+	}
+
+	const whole = value as number;
+	return numbers === 'integer' ? churchInteger(whole) : numeralEncodings[encoding].encode(whole);
+}
+
+// Read a normal form back as a value of the given type, or null if it is not one
+function decodeValue(term: LambdaNode, type: MathType | null, representation: Representation): MathValue | null {
+	const { numbers, encoding, lists } = representation;
+
+	if (type === 'boolean') {
+		return extractBoolean(term);
+	}
+
+	if (type !== null && typeof type === 'object') {
+		const items = listEncodings[lists].decode(term)?.map(item => decodeValue(item, type.list, representation));
+		return items && !items.includes(null) ? items as MathValue[] : null;
+	}
+
+	if (numbers === 'integer') {
+		return extractInteger(term);
+	}
+
+	// Fractions are not reduced during evaluation, so that is done here
+	if (numbers === 'rational') {
+		const parts = extractRational(term);
+		return parts && parts.denominator > 0 ? fraction(parts.numerator, parts.denominator) : null;
+	}
+
+	return numeralEncodings[encoding].decode(term);
+}
+
+// β-steps allowed when computing a value with compiled closures. Enough for e.g. 2^12
+// or 6!, and small enough that a run that will not finish gives up within a fraction
+// of a second.
+const COMPUTE_FUEL = 100_000;
+
+// Compute the value of a term with compiled closures rather than the trace, or null if
+// it runs out of fuel or does not read as a value of the given type. Numbers are
+// counted, so only Church numerals and the integers and rationals built on them work.
+function computeValue(
+	term: LambdaNode,
+	type: MathType | null,
+	representation: Representation,
+	definitions: Environment
+): MathValue | null {
+	const { numbers, encoding, lists } = representation;
+
+	const count = (value: Value) => encoding === 'church' ? readChurchNumeral(value) : mismatch('a Church numeral');
+	const integer = (value: Value) => {
+		const [positive, negative] = readPair(value);
+		return count(positive()) - count(negative());
+	};
+
+	const read = (value: Value, type: MathType | null): MathValue => {
+		if (type === 'boolean') {
+			return readBoolean(value);
+		}
+		if (type !== null && typeof type === 'object') {
+			return readList(value, lists).map(item => read(item(), type.list));
+		}
+		if (numbers === 'integer') {
+			return integer(value);
+		}
+		if (numbers === 'rational') {
+			const [numerator, denominator] = readPair(value);
+			const whole = count(denominator());
+			return whole > 0 ? fraction(integer(numerator()), whole) : mismatch('a positive denominator');
+		}
+		return count(value);
+	};
+
+	return computeCompiled(term, value => read(value, type), { definitions, maxFuel: COMPUTE_FUEL });
+}
+
+// How numbers and lists are represented as terms
+type Representation = Required<Pick<MathEvaluationOptions, 'numbers' | 'encoding' | 'lists'>>;
+
+// Convert a math AST to its lambda calculus representation. Operators are referred to
+// by their prelude names (see OPERATOR_NAMES, and AND, OR, NOT, IF for booleans),
+// which are unfolded during evaluation. Natural numbers become numerals of the given
+// encoding; integers and rationals are always built from Church numerals. Names
+// defined in the expression become bound variables: let and definitions desugar to
+// the application of an abstraction, and calls to applications.
+export function convertMathToLambda(
+	node: MathNode,
+	representation: Pick<MathEvaluationOptions, 'numbers' | 'encoding' | 'lists'> = {}
+): LambdaNode {
+	const { numbers = 'natural', encoding = 'church', lists = 'church' } = representation;
+	const convert = (child: MathNode) => convertMathToLambda(child, representation);
+	const operator = (name: NumericOperator) => variable(OPERATOR_NAMES[numbers][name]!);
 
-// Convert a math AST to its lambda calculus representation
-export function convertMathToLambda(node: MathNode): LambdaNode {
 	if (node.type === 'number') {
-		// Convert number to Church numeral
-		return churchNumber(node.value);
+		return numberTerm(numbers === 'rational' ? literalValue(node) : node.value, numbers, encoding);
+	} else if (node.type === 'boolean') {
+		return variable(node.value ? 'TRUE' : 'FALSE');
 	} else if (node.type === 'binaryOp') {
 		// Convert left and right operands
-		const leftLambda = convertMathToLambda(node.left);
-		const rightLambda = convertMathToLambda(node.right);
+		const leftLambda = convert(node.left);
+		const rightLambda = convert(node.right);
+
+		// Dividing by zero has no meaningful Church result, and powers of integers
+		// only stay integers for exponents of at least 0, so reject these up front.
+		// Operands that depend on names are only known during the reduction.
+		if ((node.operator === '/' || node.operator === '%') && isConstant(node.right)) {
+			const divisor = evaluateMathAST(node.right, numbers);
+			if (divisor === 0 || (typeof divisor === 'object' && !Array.isArray(divisor) && divisor.numerator === 0)) {
+				throw new Error('Division by zero');
+			}
+		}
+		if (node.operator === '^' && isConstant(node.right) && (evaluateMathAST(node.right, numbers) as number) < 0) {
+			throw new Error('Negative exponent');
+		}
 
 		// Apply the appropriate Church encoding based on operator
-		switch (node.operator) {
-			case '+':
-				return application(application(churchAdd, leftLambda), rightLambda);
-			case '-':
-				return application(application(churchSubtract, leftLambda), rightLambda);
-			case '*':
-				return application(application(churchMultiply, leftLambda), rightLambda);
-			case '/':
-				// Division is more complex in lambda calculus and not implemented here
-				throw new Error('Division not yet implemented in lambda calculus');
-			default:
-				throw new Error(`Unknown operator: ${node.operator}`);
+		return application(application(operator(node.operator), leftLambda), rightLambda);
+	} else if (node.type === 'factorial') {
+		if (isConstant(node.operand) && (evaluateMathAST(node.operand, numbers) as number) < 0) {
+			throw new Error('Factorial of a negative number');
+		}
+		return application(operator('!'), convert(node.operand));
+	} else if (node.type === 'negate') {
+		// For natural numbers -n is 0 - n, which is always 0
+		switch (numbers) {
+			case 'integer': return application(variable('INEG'), convert(node.operand));
+			case 'rational': return application(variable('RNEG'), convert(node.operand));
+			default: return application(application(variable('SUB'), numeralEncodings[encoding].encode(0)), convert(node.operand));
 		}
+	} else if (node.type === 'comparison') {
+		return application(application(operator(node.operator), convert(node.left)), convert(node.right));
+	} else if (node.type === 'logicalOp') {
+		return application(application(variable(node.operator === '&&' ? 'AND' : 'OR'), convert(node.left)), convert(node.right));
+	} else if (node.type === 'not') {
+		return application(variable('NOT'), convert(node.operand));
+	} else if (node.type === 'conditional') {
+		// Only outermost strategies leave the branch that is not taken unevaluated
+		return application(
+			application(application(variable('IF'), convert(node.condition)), convert(node.thenBranch)),
+			convert(node.elseBranch)
+		);
+	} else if (node.type === 'variable') {
+		return variable(node.name);
+	} else if (node.type === 'let') {
+		// let x = v in b is (λx.b) v
+		return application(abstraction(node.name, convert(node.body)), convert(node.value));
+	} else if (node.type === 'function') {
+		// f(x, y) = e; b is (λf.b) (λx y.e), and (λf.b) (Y (λf x y.e)) when e calls f
+		const fn = node.params.reduceRight((body, param) => abstraction(param, body), convert(node.body));
+		return application(
+			abstraction(node.name, convert(node.scope)),
+			isRecursive(node) ? application(variable('Y'), abstraction(node.name, fn)) : fn
+		);
+	} else if (node.type === 'list') {
+		return listEncodings[lists].encode(node.items.map(convert));
+	} else if (node.type === 'call' && node.name === 'sum') {
+		// sum(xs) is FOLD PLUS 0 xs and length(xs) is FOLD (λx.PLUS 1) 0 xs
+		return application(application(application(variable('FOLD'), operator('+')), numberTerm(0, numbers, encoding)), convert(node.args[0]));
+	} else if (node.type === 'call' && node.name === 'length') {
+		const increment = abstraction('x', application(operator('+'), numberTerm(1, numbers, encoding)));
+		return application(application(application(variable('FOLD'), increment), numberTerm(0, numbers, encoding)), convert(node.args[0]));
+	} else if (node.type === 'call' && node.name === 'map') {
+		return application(application(variable('MAP'), convert(node.args[0])), convert(node.args[1]));
+	} else if (node.type === 'call' && node.name === 'fold') {
+		return node.args.reduce<LambdaNode>((func, arg) => application(func, convert(arg)), variable('FOLD'));
+	} else if (node.type === 'call') {
+		return node.args.reduce<LambdaNode>((func, arg) => application(func, convert(arg)), variable(node.name));
 	}
 
 	throw new Error(`Unknown node type: ${(node as any).type}`);
 }
 
-// Take a math expression, convert to lambda calculus, evaluate, and return result
-export function evaluateMathAsLambda(node: MathNode): {
-	lambdaExpr: LambdaNode;
-	steps: LambdaNode[];
-	result: number;
-} {
-	try {
-		// Convert math AST to lambda calculus
-		const lambdaExpr = convertMathToLambda(node);
-
-		// Clear substitution cache before evaluation for clean start
-		clearSubstitutionCache();
-
-		// Evaluate the lambda expression
-		const { result, steps } = evaluate(lambdaExpr);
-
-		// Extract the numeric result from the lambda expression
-		const numericResult = extractNumber(result);
-
-		// Check if the result is valid
-		if (Number.isNaN(numericResult)) {
-			console.warn("Lambda evaluation produced NaN, using simplified approach");
-			// Fall back to direct evaluation of the math AST
-			const directResult = evaluateMathAST(node);
-			return {
-				lambdaExpr,
-				steps,
-				result: directResult
-			};
-		}
+// Evaluation options for math expressions
+export interface MathEvaluationOptions extends EvaluationOptions {
+	numbers?: NumberSystem;
+	encoding?: NumeralEncodingName;
+	lists?: ListEncodingName;
+	// Compile to these combinators and reduce those instead of the lambda term
+	combinators?: CombinatorBasis;
+}
+
+// Result of an evaluation, null when it stopped before reaching a normal form or
+// the normal form does not read as a value of the expected type
+export interface MathEvaluationOutcome extends Termination {
+	result: MathValue | null;
+}
+
+// A math expression checked and translated, ready to be evaluated
+interface Translation {
+	term: LambdaNode;
+	type: MathType | null;
+	representation: Representation;
+	definitions: Environment;
+}
+
+// Check an expression and convert it to lambda calculus, throwing if it cannot be evaluated
+function translate(
+	node: MathNode,
+	{ numbers = 'natural', encoding = 'church', lists = 'church', definitions }: MathEvaluationOptions
+): Translation {
+	const representation: Representation = { numbers, encoding, lists };
+
+	// Ill-typed expressions have no meaningful reduction, so they are reported rather than run
+	const type = mathResultType(node, numbers);
 
-		return {
-			lambdaExpr,
-			steps,
-			result: numericResult
-		};
-	} catch (error) {
-		console.error("Error in lambda calculus evaluation:", error);
-		// Fall back to direct evaluation of the math AST
-		const directResult = evaluateMathAST(node);
-		// Return a simplified step list with just the initial expression
-		return {
-			lambdaExpr: churchNumber(directResult), // Simple Church numeral for the result
-			steps: [churchNumber(directResult)],    // Single step with the result
-			result: directResult
-		};
+	// Without recursion direct evaluation always finishes, and reports a division by
+	// zero that a name hides from the checks in convertMathToLambda
+	if (!definesRecursion(node)) {
+		evaluateMathAST(node, numbers);
 	}
-} 
\ No newline at end of file
+
+	const numerals = numeralEncodings[encoding];
+	if (numbers !== 'natural' && encoding !== 'church') {
+		throw new Error('Integers and rationals are only available with Church numerals');
+	}
+
+	const term = convertMathToLambda(node, representation);
+
+	// Operators the encoding does not define would stay behind as free variables
+	const environment = definitions ?? mathDefinitions(encoding, lists);
+	const missing = Array.from(freeVariables(term)).filter(name => !environment.has(name));
+	if (missing.length > 0) {
+		throw new Error(`${numerals.label} numerals do not define ${missing.join(', ')}`);
+	}
+
+	return { term, type, representation, definitions: environment };
+}
+
+// The value of a math expression computed by running its term as compiled closures,
+// with a fuel limit of its own, to check the trace against or to stand in for its
+// result when it stops early. Null if it runs out of fuel or does not read as a value.
+export function computeMathValue(node: MathNode, options: MathEvaluationOptions = {}): MathValue | null {
+	const { term, type, representation, definitions } = translate(node, options);
+	return computeValue(term, type, representation, definitions);
+}
+
+// Convert a math expression to lambda calculus and evaluate it step by step, yielding
+// each reduction step as it is produced and returning the result
+export function* evaluateMathAsLambdaSteps(
+	node: MathNode,
+	{ combinators, ...options }: MathEvaluationOptions = {}
+): Generator<ReductionStep, MathEvaluationOutcome, void> {
+	const { term: lambdaExpr, type: resultType, representation, definitions } = translate(node, options);
+
+	// Evaluate the lambda expression, passing every step on to the caller
+	const { result, ...termination } = combinators
+		? yield* evaluateCombinatorSteps(lambdaExpr, combinators, { ...options, definitions })
+		: yield* evaluateSteps(lambdaExpr, { ...options, definitions });
+
+	// A term that was cut off before its normal form does not encode the answer
+	if (termination.status !== 'normalForm') {
+		return { result: null, ...termination };
+	}
+
+	// Extract the result from the lambda expression. η-steps can leave a value in a form
+	// the decoders do not know, e.g. 1 as λf.f, so such a result is read by running it.
+	const normalForm = combinators ? combinatorNormalForm(result, options) : result;
+	if (!normalForm) {
+		return { result: null, ...termination };
+	}
+	const decoded = decodeValue(normalForm, resultType, representation)
+		?? (options.eta ? computeValue(normalForm, resultType, representation, definitions) : null);
+	return { result: decoded, ...termination };
+}
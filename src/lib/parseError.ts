@@ -0,0 +1,16 @@
+// Error raised by the parsers, carrying the character offset where parsing failed
+export class ParseError extends Error {
+	position: number;
+	// Number of characters at the position that caused the error, 0 at the end of the input
+	length: number;
+	// What would have been accepted at the position, when the parser knows
+	expected: string[];
+
+	constructor(message: string, position: number, { length = 1, expected = [] }: { length?: number; expected?: string[]; } = {}) {
+		super(`${message} at position ${position}`);
+		this.name = 'ParseError';
+		this.position = position;
+		this.length = length;
+		this.expected = expected;
+	}
+}
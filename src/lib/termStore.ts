@@ -0,0 +1,117 @@
+import type { Abstraction, Application, LambdaNode, Variable } from './lambdaCalculus';
+
+// Hash-consed term store. Every distinct term structure is represented by a single
+// shared node object with a numeric id, so identical subterms are stored once and
+// structural equality of stored terms is a pointer (or id) comparison.
+//
+// Nodes are immutable once created; code that builds terms from object literals
+// still works, those nodes are interned lazily the first time their id is needed.
+
+// Canonical nodes, keyed by their parts: variables by name, abstractions by
+// parameter then body id, applications by function id then argument id
+const variables = new Map<string, Variable>();
+const abstractions = new Map<string, Map<number, Abstraction>>();
+const applications = new Map<number, Map<number, Application>>();
+
+// Id of every canonical node
+const ids = new WeakMap<LambdaNode, number>();
+
+// Canonical counterpart of nodes that were not built through the store
+const canonical = new WeakMap<LambdaNode, LambdaNode>();
+
+// Ids are never reused, so a stale id can only cause a cache miss, never a wrong hit
+let nextId = 0;
+
+// Register a newly created canonical node
+function register<T extends LambdaNode>(node: T): T {
+	ids.set(node, nextId++);
+	return node;
+}
+
+// Second-level table for `key`, created on first use
+function bucket<K, V>(tables: Map<K, Map<number, V>>, key: K): Map<number, V> {
+	let inner = tables.get(key);
+	if (!inner) {
+		inner = new Map();
+		tables.set(key, inner);
+	}
+	return inner;
+}
+
+export function internVariable(name: string): Variable {
+	let node = variables.get(name);
+	if (!node) {
+		node = register<Variable>({ type: 'variable', name });
+		variables.set(name, node);
+	}
+	return node;
+}
+
+export function internAbstraction(param: string, body: LambdaNode): Abstraction {
+	const sharedBody = intern(body);
+	const byBody = bucket(abstractions, param);
+	const bodyId = ids.get(sharedBody)!;
+
+	let node = byBody.get(bodyId);
+	if (!node) {
+		node = register<Abstraction>({ type: 'abstraction', param, body: sharedBody });
+		byBody.set(bodyId, node);
+	}
+	return node;
+}
+
+export function internApplication(func: LambdaNode, arg: LambdaNode): Application {
+	const sharedFunc = intern(func);
+	const sharedArg = intern(arg);
+	const byArg = bucket(applications, ids.get(sharedFunc)!);
+	const argId = ids.get(sharedArg)!;
+
+	let node = byArg.get(argId);
+	if (!node) {
+		node = register<Application>({ type: 'application', func: sharedFunc, arg: sharedArg });
+		byArg.set(argId, node);
+	}
+	return node;
+}
+
+// Return the shared node with the same structure as `term`
+export function intern(term: LambdaNode): LambdaNode {
+	// Only canonical nodes have ids (including those from before the tables were last cleared)
+	if (ids.has(term)) return term;
+
+	const known = canonical.get(term);
+	if (known) return known;
+
+	let shared: LambdaNode;
+	switch (term.type) {
+		case 'variable':
+			shared = internVariable(term.name);
+			break;
+		case 'abstraction':
+			shared = internAbstraction(term.param, term.body);
+			break;
+		case 'application':
+			shared = internApplication(term.func, term.arg);
+			break;
+		default:
+			throw new Error(`Unknown term type: ${(term as any).type}`);
+	}
+
+	if (shared !== term) {
+		canonical.set(term, shared);
+	}
+	return shared;
+}
+
+// Cheap identity key for a term: equal ids imply equal structure
+export function termId(term: LambdaNode): number {
+	return ids.get(intern(term))!;
+}
+
+// Drop the tables of canonical nodes so that terms from earlier evaluations can be
+// garbage collected. Nodes created before keep their ids.
+export function clearTermStore(): void {
+	variables.clear();
+	abstractions.clear();
+	applications.clear();
+}
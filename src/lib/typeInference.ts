@@ -0,0 +1,248 @@
+import { Environment, LambdaNode, TermPath } from './lambdaCalculus';
+import { printLambda } from './lambdaPrinter';
+
+// Hindley–Milner type inference for lambda terms. Types are built from type variables
+// and function arrows only, so a term fails to type exactly when unification would
+// need an infinite type, as for the self-application in λx.x x and hence in Y.
+// Defined names are typed like let-bound names: each use gets a fresh copy of the
+// principal type of the definition.
+
+export type Type =
+	| { kind: 'variable'; id: number; }
+	| { kind: 'function'; param: Type; result: Type; };
+
+// Outcome of inferring the types of a term and its subterms
+export interface TypeInference {
+	// Principal type of the term, or null if it has none
+	type: Type | null;
+	// Why the term has no type: the subterm where inference failed and what went wrong,
+	// and whether that subterm is a variable applied to itself, as in x x
+	error: { path: TermPath; message: string; selfApplication: boolean; } | null;
+	// Type of the subterm at `path` within the typing of the whole term, or null if the
+	// term has no type or the path leaves it
+	typeAt(path: TermPath): Type | null;
+}
+
+// Raised while inferring, and turned into the `error` of the result
+class UntypableError extends Error {
+	constructor(message: string, public readonly path: TermPath, public readonly selfApplication = false) {
+		super(message);
+		this.name = 'UntypableError';
+	}
+}
+
+// Types of the subterms, shaped like the term
+interface TypedTerm {
+	type: Type;
+	func?: TypedTerm;
+	arg?: TypedTerm;
+	body?: TypedTerm;
+}
+
+const functionType = (param: Type, result: Type): Type => ({ kind: 'function', param, result });
+
+// Longest subterm quoted in full in an error message
+const MAX_QUOTED_LENGTH = 60;
+
+const quote = (term: LambdaNode) => {
+	const printed = printLambda(term);
+	return printed.length > MAX_QUOTED_LENGTH ? `${printed.slice(0, MAX_QUOTED_LENGTH - 1)}…` : printed;
+};
+
+// Principal types of definitions, or why they have none, by definition term. The type
+// variables of a stored type are all generalized, since definitions are closed.
+const definitionTypes = new WeakMap<LambdaNode, Type | string>();
+
+// Show a type with its variables named a, b, c, ... in order of first appearance.
+// Types shown together share their names.
+export function formatTypes(types: Type[]): string[] {
+	const names = new Map<number, string>();
+
+	const nameOf = (id: number) => {
+		let name = names.get(id);
+		if (name === undefined) {
+			const index = names.size;
+			name = index < 26 ? String.fromCharCode(97 + index) : `t${index - 25}`;
+			names.set(id, name);
+		}
+		return name;
+	};
+
+	const format = (type: Type): string => {
+		if (type.kind === 'variable') return nameOf(type.id);
+		const param = type.param.kind === 'function' ? `(${format(type.param)})` : format(type.param);
+		return `${param}→${format(type.result)}`;
+	};
+
+	return types.map(format);
+}
+
+export function formatType(type: Type): string {
+	return formatTypes([type])[0];
+}
+
+// Infer the principal type of `term` and of each of its subterms. Free names with a
+// definition in `definitions` take the type of their definition; other free
+// variables get one unknown type each, shared by all their occurrences.
+export function inferTypes(term: LambdaNode, definitions: Environment = new Map()): TypeInference {
+	let nextId = 0;
+	// The substitution found so far: what each solved type variable stands for
+	const solutions = new Map<number, Type>();
+	const freeTypes = new Map<string, Type>();
+
+	const fresh = (): Type => ({ kind: 'variable', id: nextId++ });
+
+	// Follow solved variables at the top of a type
+	function prune(type: Type): Type {
+		while (type.kind === 'variable') {
+			const solution = solutions.get(type.id);
+			if (!solution) break;
+			type = solution;
+		}
+		return type;
+	}
+
+	// Apply the substitution throughout a type
+	function resolve(type: Type): Type {
+		const pruned = prune(type);
+		return pruned.kind === 'variable' ? pruned : functionType(resolve(pruned.param), resolve(pruned.result));
+	}
+
+	function occurs(id: number, type: Type): boolean {
+		const pruned = prune(type);
+		return pruned.kind === 'variable'
+			? pruned.id === id
+			: occurs(id, pruned.param) || occurs(id, pruned.result);
+	}
+
+	// Make two types equal, or return the variable and the type containing it that
+	// would have to be equal for that
+	function unify(a: Type, b: Type): [Type, Type] | null {
+		a = prune(a);
+		b = prune(b);
+		if (a.kind === 'variable') return solve(a.id, b);
+		if (b.kind === 'variable') return solve(b.id, a);
+		return unify(a.param, b.param) ?? unify(a.result, b.result);
+	}
+
+	function solve(id: number, type: Type): [Type, Type] | null {
+		if (type.kind === 'variable' && type.id === id) return null;
+		if (occurs(id, type)) return [{ kind: 'variable', id }, type];
+		solutions.set(id, type);
+		return null;
+	}
+
+	// A fresh copy of a generalized type
+	function instantiate(type: Type, copies = new Map<number, Type>()): Type {
+		if (type.kind === 'function') {
+			return functionType(instantiate(type.param, copies), instantiate(type.result, copies));
+		}
+		let copy = copies.get(type.id);
+		if (!copy) {
+			copy = fresh();
+			copies.set(type.id, copy);
+		}
+		return copy;
+	}
+
+	function definitionType(name: string, definition: LambdaNode): Type {
+		let known = definitionTypes.get(definition);
+		if (known === undefined) {
+			const inference = inferTypes(definition);
+			known = inference.type ?? inference.error?.message ?? 'it has no type';
+			definitionTypes.set(definition, known);
+		}
+		if (typeof known === 'string') {
+			throw new UntypableError(`${name} has no simple type: ${known}`, [...path]);
+		}
+		return instantiate(known);
+	}
+
+	// Types of the variables bound by the abstractions around the node being visited,
+	// and the path to that node; both are restored on the way back up
+	const scope = new Map<string, Type>();
+	const path: TermPath = [];
+
+	function inferChild(child: LambdaNode, field: TermPath[number]): TypedTerm {
+		path.push(field);
+		const typed = infer(child);
+		path.pop();
+		return typed;
+	}
+
+	function infer(node: LambdaNode): TypedTerm {
+		switch (node.type) {
+			case 'variable': {
+				const bound = scope.get(node.name);
+				if (bound) return { type: bound };
+
+				const definition = definitions.get(node.name);
+				if (definition !== undefined) return { type: definitionType(node.name, definition) };
+
+				let free = freeTypes.get(node.name);
+				if (!free) {
+					free = fresh();
+					freeTypes.set(node.name, free);
+				}
+				return { type: free };
+			}
+
+			case 'abstraction': {
+				const param = fresh();
+				const shadowed = scope.get(node.param);
+				scope.set(node.param, param);
+				const body = inferChild(node.body, 'body');
+				if (shadowed) {
+					scope.set(node.param, shadowed);
+				} else {
+					scope.delete(node.param);
+				}
+				return { type: functionType(param, body.type), body };
+			}
+
+			case 'application': {
+				const func = inferChild(node.func, 'func');
+				const arg = inferChild(node.arg, 'arg');
+				const result = fresh();
+				const conflict = unify(func.type, functionType(arg.type, result));
+				if (conflict) {
+					const [variable, type] = formatTypes(conflict.map(resolve));
+					const { func: applied, arg: argument } = node;
+					throw new UntypableError(
+						`${quote(node)} needs the infinite type ${variable} = ${type}`,
+						[...path],
+						applied.type === 'variable' && argument.type === 'variable' && applied.name === argument.name
+					);
+				}
+				return { type: result, func, arg };
+			}
+
+			default:
+				throw new Error(`Unknown term type: ${(node as any).type}`);
+		}
+	}
+
+	let typed: TypedTerm;
+	try {
+		typed = infer(term);
+	} catch (error) {
+		if (!(error instanceof UntypableError)) throw error;
+		return {
+			type: null,
+			error: { path: error.path, message: error.message, selfApplication: error.selfApplication },
+			typeAt: () => null
+		};
+	}
+
+	return {
+		type: resolve(typed.type),
+		error: null,
+		typeAt(path: TermPath): Type | null {
+			let current: TypedTerm | undefined = typed;
+			for (const field of path) {
+				current = current?.[field];
+			}
+			return current ? resolve(current.type) : null;
+		}
+	};
+}
@@ -0,0 +1,117 @@
+import { evaluateCombinatorSteps } from '../combinators';
+import { parseProgram, prelude } from '../definitions';
+import { EvaluationOutcome, LambdaNode, ReductionStep, Termination, evaluateSteps } from '../lambdaCalculus';
+import { MathValue, parseMathExpression } from '../mathParser';
+import { MathEvaluationOptions, MathEvaluationOutcome, computeMathValue, evaluateMathAsLambdaSteps } from '../mathToLambda';
+
+// Evaluates expressions off the main thread. Steps are posted back in batches while
+// the reduction runs, so the page can start showing them before evaluation finishes.
+// There is no cancel message: a running evaluation is stopped by terminating the worker.
+// The value of a math expression is computed directly before the trace starts and
+// posted on its own, so it is there while a long trace is still running.
+
+export interface EvaluationRequest {
+	id: number;
+	mode: 'math' | 'lambda';
+	expression: string;
+	options: MathEvaluationOptions;
+	// Reduce this term instead, a step the expression was taken to by hand (e.g. an
+	// η-expansion). The expression still supplies the definitions.
+	term?: LambdaNode;
+}
+
+export type EvaluationResponse =
+	| { type: 'compiled'; id: number; value: MathValue | null; }
+	| { type: 'steps'; id: number; steps: ReductionStep[]; }
+	| { type: 'done'; id: number; result: MathValue | null; termination: Termination; }
+	| { type: 'error'; id: number; message: string; };
+
+// Minimum time between two batches, so a fast reduction isn't sent one step per message
+const BATCH_INTERVAL_MS = 50;
+
+function post(response: EvaluationResponse) {
+	self.postMessage(response);
+}
+
+// Evaluate lambda input, which may start with definitions of its own
+function evaluateProgram(
+	source: string,
+	{ combinators, ...options }: MathEvaluationOptions
+): Generator<ReductionStep, EvaluationOutcome, void> {
+	const { term, definitions } = parseProgram(source, options.definitions ?? prelude);
+	return combinators
+		? evaluateCombinatorSteps(term, combinators, { ...options, definitions })
+		: evaluateSteps(term, { ...options, definitions });
+}
+
+// Carry on reducing a term reached from an expression, with the expression's definitions
+function resumeProgram(
+	term: LambdaNode,
+	mode: EvaluationRequest['mode'],
+	expression: string,
+	{ combinators, ...options }: MathEvaluationOptions
+): Generator<ReductionStep, EvaluationOutcome, void> {
+	const definitions = mode === 'lambda'
+		? parseProgram(expression, options.definitions ?? prelude).definitions
+		: options.definitions ?? prelude;
+	return evaluateSteps(term, { ...options, definitions });
+}
+
+// Run an evaluation, posting steps as they are produced, and return its outcome
+function run({ id, mode, expression, options, term }: EvaluationRequest): MathEvaluationOutcome {
+	let evaluation: Generator<ReductionStep, Termination & { result: unknown; }, void>;
+	if (term) {
+		evaluation = resumeProgram(term, mode, expression, options);
+	} else if (mode === 'lambda') {
+		evaluation = evaluateProgram(expression, options);
+	} else {
+		const node = parseMathExpression(expression);
+		post({ type: 'compiled', id, value: computeMathValue(node, options) });
+		evaluation = evaluateMathAsLambdaSteps(node, options);
+	}
+
+	let batch: ReductionStep[] = [];
+	let lastPost = 0;
+
+	let next = evaluation.next();
+	while (!next.done) {
+		batch.push(next.value);
+
+		// The first step goes out immediately so the diagram appears right away
+		const now = Date.now();
+		if (lastPost === 0 || now - lastPost >= BATCH_INTERVAL_MS) {
+			post({ type: 'steps', id, steps: batch });
+			batch = [];
+			lastPost = now;
+		}
+
+		next = evaluation.next();
+	}
+
+	if (batch.length > 0) {
+		post({ type: 'steps', id, steps: batch });
+	}
+
+	if (mode === 'math' && !term) {
+		return next.value as MathEvaluationOutcome;
+	}
+
+	// Arbitrary terms have no numeric reading, so only the reduction is shown. Nor is a
+	// resumed math expression read again: steps taken by hand do not change its value.
+	return { ...next.value, result: null };
+}
+
+self.onmessage = (event: MessageEvent<EvaluationRequest>) => {
+	const request = event.data;
+
+	try {
+		const { result, ...termination } = run(request);
+		post({ type: 'done', id: request.id, result, termination });
+	} catch (error) {
+		post({
+			type: 'error',
+			id: request.id,
+			message: error instanceof Error ? error.message : String(error)
+		});
+	}
+};
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { decodeResult, describeDecodedValue, formatDecodedValue } from '../src/lib/decoders';
+import { numeralEncodings } from '../src/lib/encodings';
+import { extractNumber } from '../src/lib/lambdaCalculus';
+import { parseLambdaExpression } from '../src/lib/lambdaParser';
+
+// Every reading of a term, formatted with its kind
+function readings(source: string): string[] {
+	return decodeResult(parseLambdaExpression(source)).map(value => `${formatDecodedValue(value)} (${describeDecodedValue(value)})`);
+}
+
+test('normal forms read as every value they encode', () => {
+	assert.deepEqual(readings('λf x.f (f x)'), ['2 (Church numeral)']);
+	assert.deepEqual(readings('λs z.s (λs z.z)'), ['1 (Scott numeral)']);
+	assert.deepEqual(readings('λt f.t'), ['true (Boolean)', 'K (Combinator)']);
+	assert.deepEqual(readings('λf.f (λf x.f x) (λt f.f)'), ['(1, 0) (Pair)']);
+	assert.deepEqual(readings('λc n.c (λf x.f x) (c (λf x.x) n)'), ['[1, 0] (Church list)']);
+	assert.deepEqual(readings('λx y z.x z (y z)'), ['S (Combinator)']);
+	assert.ok(readings('λx y.y').includes('false (Boolean)'));
+});
+
+test('a term that encodes nothing has no reading, rather than reading as 0', () => {
+	assert.deepEqual(readings('λx.x y'), []);
+	assert.equal(extractNumber(parseLambdaExpression('λx.x y')), null);
+});
+
+test('every numeral encoding decodes what it encodes', () => {
+	for (const [name, encoding] of Object.entries(numeralEncodings)) {
+		for (const n of [0, 1, 2, 5]) {
+			assert.equal(encoding.decode(encoding.encode(n)), n, `${n} as a ${name} numeral`);
+		}
+	}
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { decimalToFraction, evaluateMathAST, formatMathValue, mathResultType, parseMathExpression } from '../src/lib/mathParser';
+import { evaluateMathAsLambdaSteps } from '../src/lib/mathToLambda';
+import { ParseError } from '../src/lib/parseError';
+
+// The error a strict parse of `expression` fails with
+function parseError(expression: string): ParseError {
+	try {
+		parseMathExpression(expression, { strict: true });
+	} catch (error) {
+		if (error instanceof ParseError) return error;
+		throw error;
+	}
+	assert.fail(`${expression} parsed`);
+}
+
+test('strict parsing points at the token where the expression goes wrong', () => {
+	const cases: [string, RegExp, number][] = [
+		['2 +', /Expected a number, a name or '\(' but found end of input/, 3],
+		['(1 + 2', /Expected '\)' but found end of input/, 6],
+		['1 2', /Expected an operator or end of input but found '2'/, 2],
+		['f(x,) = 1; 2', /Expected a parameter name but found '\)'/, 4],
+		['Foo', /Names must start with a lowercase letter/, 0],
+		['sum = 1; 2', /sum is a built-in function/, 0]
+	];
+	for (const [expression, message, position] of cases) {
+		const error = parseError(expression);
+		assert.match(error.message, message, expression);
+		assert.equal(error.position, position, expression);
+	}
+});
+
+test('decimals are read exactly from their text', () => {
+	assert.deepEqual(decimalToFraction('2.5'), { numerator: 5, denominator: 2 });
+	assert.deepEqual(decimalToFraction('0.50000000000000000000'), { numerator: 1, denominator: 2 });
+	assert.deepEqual(decimalToFraction('.25'), { numerator: 1, denominator: 4 });
+	assert.throws(() => decimalToFraction('1234567890.1234567'), /too many digits/);
+});
+
+test('decimals need rationals, and literals must fit in a numeral', () => {
+	const type = (expression: string, numbers: 'natural' | 'rational') => mathResultType(parseMathExpression(expression), numbers);
+	assert.throws(() => type('1.5', 'natural'), /1.5 is not a whole number; choose Rationals/);
+	assert.throws(() => type('1001', 'natural'), /too large to encode as a numeral/);
+	assert.throws(() => type('0.0001', 'rational'), /too large to encode as a numeral/);
+	assert.equal(type('0.001', 'rational'), 'number');
+});
+
+test('rationals evaluate directly and through the trace', () => {
+	const node = parseMathExpression('0.1 + 0.2');
+	assert.equal(formatMathValue(evaluateMathAST(node, 'rational')), '3/10');
+
+	const evaluation = evaluateMathAsLambdaSteps(parseMathExpression('1/3 + 1/6'), { numbers: 'rational' });
+	let next = evaluation.next();
+	while (!next.done) next = evaluation.next();
+	assert.equal(next.value.result === null ? null : formatMathValue(next.value.result), '1/2');
+});
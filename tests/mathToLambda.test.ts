@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { NumeralEncodingName } from '../src/lib/encodings';
+import { formatMathValue, parseMathExpression } from '../src/lib/mathParser';
+import { MathEvaluationOptions, computeMathValue, evaluateMathAsLambdaSteps } from '../src/lib/mathToLambda';
+
+// Run the trace of an expression to the end and format the value it reads as
+function evaluate(expression: string, options: MathEvaluationOptions = {}): string | null {
+	const evaluation = evaluateMathAsLambdaSteps(parseMathExpression(expression), options);
+	let next = evaluation.next();
+	while (!next.done) next = evaluation.next();
+	return next.value.result === null ? null : formatMathValue(next.value.result);
+}
+
+const encodings: NumeralEncodingName[] = ['church', 'scott', 'parigot', 'binary'];
+
+test('division and remainder reduce to numerals in every encoding', () => {
+	for (const encoding of encodings) {
+		assert.equal(evaluate('7 / 2', { encoding }), '3', encoding);
+		assert.equal(evaluate('7 % 3', { encoding }), '1', encoding);
+		assert.equal(evaluate('2 / 5', { encoding }), '0', encoding);
+	}
+});
+
+test('every operator is defined in every encoding', () => {
+	const cases: [string, string][] = [
+		['2 + 3', '5'], ['5 - 2', '3'], ['2 - 5', '0'], ['2 * 3', '6'], ['2 ^ 3', '8'], ['2 ^ 0', '1'],
+		['3!', '6'], ['0!', '1'], ['2 < 3', 'true'], ['3 <= 2', 'false'], ['3 == 3', 'true']
+	];
+	for (const encoding of encodings) {
+		for (const [expression, expected] of cases) {
+			assert.equal(evaluate(expression, { encoding }), expected, `${expression} with ${encoding} numerals`);
+		}
+	}
+});
+
+test('booleans, comparisons and conditionals read back as values', () => {
+	assert.equal(evaluate('true && 2 < 3'), 'true');
+	assert.equal(evaluate('!(1 == 2) || false'), 'true');
+	assert.equal(evaluate('3 <= 2 || !true'), 'false');
+	assert.equal(evaluate('if 2 == 2 then 5 else 7'), '5');
+	assert.equal(evaluate('if 3 < 1 then 5 else 7', { encoding: 'scott' }), '7');
+});
+
+test('expressions that mix booleans and numbers are rejected before evaluation', () => {
+	assert.throws(() => evaluate('1 + true'), /Expected a number on the right of \+, but found a boolean/);
+	assert.throws(() => evaluate('if 1 then 2 else 3'), /Expected a boolean as the condition of if/);
+	assert.throws(() => evaluate('if true then 1 else false'), /Expected a number in the else branch/);
+	assert.throws(() => evaluate('!3'), /Expected a boolean after !/);
+});
+
+test('division by zero is reported before evaluation', () => {
+	assert.throws(() => evaluate('1 / 0'), /Division by zero/);
+	assert.throws(() => evaluate('x = 0; 1 % x'), /Division by zero/);
+});
+
+test('compiled combinator terms reduce to the same values', () => {
+	assert.equal(evaluate('2 + 3', { combinators: 'ski' }), '5');
+	assert.equal(evaluate('1 < 2', { combinators: 'ski' }), 'true');
+	assert.equal(evaluate('8 / 2', { combinators: 'skibc' }), '4');
+	assert.equal(evaluate('7 % 3', { combinators: 'skibc' }), '1');
+	assert.equal(evaluate('if 1 < 2 then 3 else 4', { combinators: 'skibc' }), '3');
+});
+
+test('compiled closures compute what the trace stops short of', () => {
+	assert.equal(evaluate('2 ^ 12'), null);
+	assert.deepEqual(computeMathValue(parseMathExpression('2 ^ 12')), 4096);
+	assert.deepEqual(computeMathValue(parseMathExpression('3 - 5'), { numbers: 'integer' }), -2);
+	assert.deepEqual(computeMathValue(parseMathExpression('[1, 2]')), [1, 2]);
+	// Out of fuel
+	assert.equal(computeMathValue(parseMathExpression('10!')), null);
+});
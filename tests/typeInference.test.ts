@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { combinatorDefinitions, compileToCombinators } from '../src/lib/combinators';
+import { prelude } from '../src/lib/definitions';
+import { churchNumber } from '../src/lib/lambdaCalculus';
+import { parseLambdaExpression } from '../src/lib/lambdaParser';
+import { formatType, inferTypes } from '../src/lib/typeInference';
+
+// The principal type of a term, or the message of why it has none
+function typeOf(source: string): string {
+	const { type, error } = inferTypes(parseLambdaExpression(source), prelude);
+	return type ? formatType(type) : `untypable: ${error!.message}`;
+}
+
+test('terms get their principal types', () => {
+	assert.equal(typeOf('λx.x'), 'a→a');
+	assert.equal(typeOf('λf x.f (f x)'), '(a→a)→a→a');
+	assert.equal(typeOf('TRUE'), 'a→b→a');
+	assert.equal(typeOf('λx.x (λy.y)'), '((a→a)→b)→b');
+});
+
+test('subterms are typed within the typing of the whole term', () => {
+	const { typeAt } = inferTypes(parseLambdaExpression('λx.x (λy.y)'));
+	assert.equal(formatType(typeAt(['body', 'arg'])!), 'a→a');
+	assert.equal(formatType(typeAt(['body', 'func'])!), '(a→a)→b');
+});
+
+test('untypable terms report where inference failed and whether it was a self-application', () => {
+	const omega = inferTypes(parseLambdaExpression('λx.x x'));
+	assert.equal(omega.type, null);
+	assert.deepEqual(omega.error, { path: ['body'], message: 'x x needs the infinite type a = a→b', selfApplication: true });
+
+	const y = inferTypes(parseLambdaExpression('Y'), prelude);
+	assert.match(y.error!.message, /^Y has no simple type/);
+	assert.equal(y.error!.selfApplication, false);
+
+	const other = inferTypes(parseLambdaExpression('λx y.y (x y) x'));
+	assert.deepEqual(other.error?.path, ['body', 'body']);
+	assert.equal(other.error?.selfApplication, false);
+});
+
+test('compiled combinator terms are typed through the terms they stand for', () => {
+	const compiled = compileToCombinators(parseLambdaExpression('λf x.f (f x)'), 'ski');
+	assert.equal(formatType(inferTypes(compiled, combinatorDefinitions).type!), '(a→a)→a→a');
+});
+
+test('terms as large as the page types do not run out of stack', () => {
+	// About 1800 nodes, nested as deep
+	assert.equal(formatType(inferTypes(churchNumber(900)).type!), '(a→a)→a→a');
+});